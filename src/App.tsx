@@ -1,37 +1,678 @@
-import { useState, useEffect, useRef } from "react";
-import { VoiceControl } from "./voiceControl";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { Calibration } from "./Calibration";
 import { Arkanoid } from "./Arkanoid";
 import {
+  bandsOverlap,
   CalibrationResult,
   emptyCalibrationState,
   isCalibrationResultComplete,
 } from "./calibrationTypes";
+import {
+  addProfile,
+  CalibrationProfile,
+  deleteProfile,
+  importProfile,
+  loadProfileStore,
+  saveProfileStore,
+  selectedProfile,
+  selectProfile,
+  updateProfile,
+} from "./calibrationProfiles";
+import { ProfilePicker } from "./ProfilePicker";
+import {
+  createPaddleInput,
+  isPaddleInputAvailable,
+  PADDLE_INPUT_LABEL,
+  PADDLE_INPUT_SOURCES,
+  PaddleInput,
+  PaddleInputOptions,
+  PaddleInputSource,
+  PitchPaddleInput,
+} from "./paddleInput";
+import {
+  DEFAULT_INPUT_FILTER_SETTINGS,
+  InputFilterSettings,
+} from "./inputFilter";
+import { FilterSettingsPanel } from "./FilterSettingsPanel";
+import {
+  DEFAULT_PITCH_MAPPING,
+  frequencyForPosition,
+  isAbsoluteMapping,
+  PITCH_MAPPING_LABEL,
+  PITCH_MAPPING_MODES,
+  PitchMappingMode,
+} from "./pitchMapping";
+import { BUNDLED_LEVEL_PACK, LevelPack, loadLevelPackFile } from "./levels";
+import {
+  GameRecorder,
+  loadRecordingFile,
+  Recording,
+  recordingFileName,
+} from "./recording";
+import { Replay } from "./Replay";
+import {
+  DEFAULT_SOUND_EVENT_SETTINGS,
+  SoundEventSettings,
+} from "./soundEvents";
+import { SoundCommandsPanel } from "./SoundCommandsPanel";
+import {
+  addHighScore,
+  createHighScoreEntry,
+  HighScoreEntry,
+  loadHighScores,
+  saveHighScores,
+} from "./highScores";
+import { RunStatsCollector } from "./runStats";
+import { NoiseEstimate } from "./noiseTracker";
+import { RunSummary } from "./RunSummary";
+import { DifficultySummary } from "./DifficultySummary";
+import {
+  DIFFICULTY_LABEL,
+  DIFFICULTY_PRESETS,
+  DifficultyPreset,
+  difficultyReport,
+} from "./difficulty";
+import { Training } from "./Training";
+import {
+  addTrainingSession,
+  loadTrainingSessions,
+  saveTrainingSessions,
+  TrainingSummary,
+} from "./trainingSession";
+import {
+  AudioSettings,
+  GameAudio,
+  loadAudioSettings,
+  saveAudioSettings,
+} from "./gameAudio";
+import { AudioSettingsPanel } from "./AudioSettingsPanel";
+import { downloadFile } from "./download";
+import { Telemetry, telemetryToCsv } from "./telemetry";
+import {
+  catchTarget,
+  createGame,
+  DEFAULT_GAME_OPTIONS,
+  EngineInput,
+  GameEvent,
+  GameState,
+  MAX_LIVES,
+  pauseGame,
+  PLAY_MODE_LABEL,
+  PLAY_MODES,
+  PlayMode,
+  resumeGame,
+  versusWinner,
+} from "./engine";
+import {
+  AudioFileError,
+  listMicrophones,
+  loadMicrophoneSettings,
+  MicrophoneError,
+  MicrophoneSettings,
+  MicrophoneStatus,
+  PitchSample,
+  saveMicrophoneSettings,
+  VoiceControl,
+} from "./voiceControl";
+import { MicrophonePanel } from "./MicrophonePanel";
+
+type Mode =
+  | "welcome"
+  | "game"
+  | "paused"
+  | "calibrating"
+  | "game-over"
+  | "replay"
+  | "training";
 
-type Mode = "welcome" | "game" | "calibrating" | "game-over";
+// keys that toggle pause while a run is on screen
+const PAUSE_KEYS = ["Escape", "p"];
 
 function App() {
   const [mode, setMode] = useState<Mode>("welcome");
   const voiceControl = useRef<VoiceControl>();
-  const [score, setScore] = useState(0);
+  const [playerName, setPlayerName] = useState("");
+  const [highScores, setHighScores] = useState(loadHighScores);
+  const [lastRun, setLastRun] = useState<HighScoreEntry | null>(null);
+  const [trainingSessions, setTrainingSessions] =
+    useState(loadTrainingSessions);
+  const runStats = useRef<RunStatsCollector>();
+  // who and what the current run is filed under once it ends
+  const runInfo = useRef({ player: "", inputSource: "", levelPack: "" });
+  const [profileStore, setProfileStore] = useState(loadProfileStore);
   const calibrationState = useRef(emptyCalibrationState());
   const [calibrationResult, setCalibrationResult] =
-    useState<CalibrationResult | null>(null);
-  const [, rerender] = useState({});
+    useState<CalibrationResult | null>(() => {
+      const profile = selectedProfile(profileStore);
+      if (profile) {
+        calibrationState.current = structuredClone(profile.state);
+      }
+      return profile?.result ?? null;
+    });
+  const [filterSettings, setFilterSettings] = useState<InputFilterSettings>(
+    () =>
+      selectedProfile(profileStore)?.filterSettings ??
+      DEFAULT_INPUT_FILTER_SETTINGS
+  );
+  const [mapping, setMapping] = useState<PitchMappingMode>(
+    () => selectedProfile(profileStore)?.mapping ?? DEFAULT_PITCH_MAPPING
+  );
+  const [soundEvents, setSoundEvents] = useState<SoundEventSettings>(
+    () =>
+      selectedProfile(profileStore)?.soundEvents ?? DEFAULT_SOUND_EVENT_SETTINGS
+  );
+  const [inputSource, setInputSource] = useState<PaddleInputSource>("voice");
+  const [paddleInput, setPaddleInput] = useState<PaddleInput | null>(null);
+  const [playMode, setPlayMode] = useState<PlayMode>("single");
+  const [difficulty, setDifficulty] = useState(DEFAULT_GAME_OPTIONS.difficulty);
+  // player 2 always whistles, with the calibration from a saved profile
+  const [secondProfileId, setSecondProfileId] = useState<string | null>(null);
+  const [secondInput, setSecondInput] = useState<PaddleInput | null>(null);
+  // names and the finished game, for the two-player result
+  const playerNames = useRef<string[]>([]);
+  const [lastGame, setLastGame] = useState<GameState | null>(null);
+  const [telemetry, setTelemetry] = useState<Telemetry | null>(null);
+  const [showTelemetry, setShowTelemetry] = useState(false);
+  const [logTelemetry, setLogTelemetry] = useState(false);
+  const [levelPack, setLevelPack] = useState<LevelPack>(BUNDLED_LEVEL_PACK);
+  const [levelError, setLevelError] = useState<string | null>(null);
+  const [gameSeed, setGameSeed] = useState(0);
+  const [game, setGame] = useState<GameState | null>(null);
+  const [lives, setLives] = useState(DEFAULT_GAME_OPTIONS.lives);
+  const recorder = useRef<GameRecorder>();
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const [audioSettings, setAudioSettings] =
+    useState<AudioSettings>(loadAudioSettings);
+  const gameAudio = useRef<GameAudio>();
+  // paddle position to guide tone pitch for the current run, if it has one
+  const guidePitch = useRef<((position: number) => number | null) | null>(null);
+  const [micSettings, setMicSettings] = useState<MicrophoneSettings>(
+    loadMicrophoneSettings
+  );
+  const [micStatus, setMicStatus] = useState<MicrophoneStatus>("pending");
+  const [micDevices, setMicDevices] = useState<MediaDeviceInfo[]>([]);
+  // name of the file standing in for the microphone
+  const [audioFile, setAudioFile] = useState<string | null>(null);
+  const [audioFileError, setAudioFileError] = useState<string | null>(null);
+
+  const adoptVoiceControl = useCallback((vc: VoiceControl) => {
+    console.log("Voice control created");
+    voiceControl.current = vc;
+    // saved settings, this also runs from the mount-only effect
+    gameAudio.current = new GameAudio(vc, loadAudioSettings());
+    vc.onDisconnected = () => setMicStatus("disconnected");
+  }, []);
+
+  /** Opens the microphone, or switches the existing input to `settings`. */
+  const connectMicrophone = useCallback(
+    (settings: MicrophoneSettings) => {
+      setMicStatus("pending");
+      const current = voiceControl.current;
+      const connecting = current
+        ? current.switchMicrophone(settings)
+        : VoiceControl.create(
+            settings,
+            loadAudioSettings().mitigation === "echoCancellation"
+          ).then(adoptVoiceControl);
+      connecting.then(
+        () => {
+          setMicStatus("ready");
+          setAudioFile(null);
+          listMicrophones().then(setMicDevices);
+        },
+        (error: Error) => {
+          console.error("Error accessing microphone:", error);
+          setMicStatus(
+            error instanceof MicrophoneError ? error.status : "error"
+          );
+        }
+      );
+    },
+    [adoptVoiceControl]
+  );
+
+  /** Analyses `file` in place of the microphone, for tests and demos. */
+  const openAudioFile = (file: File) => {
+    setAudioFileError(null);
+    const current = voiceControl.current;
+    const opening = current
+      ? current.switchAudioFile(file)
+      : VoiceControl.fromAudioFile(
+          file,
+          audioSettings.mitigation === "echoCancellation"
+        ).then(adoptVoiceControl);
+    opening.then(
+      () => {
+        setAudioFile(file.name);
+        setMicStatus("ready");
+        // picking the file counts as the gesture browsers want before playing
+        gameAudio.current?.resume();
+      },
+      (error: Error) => {
+        console.error("Error opening audio file:", error);
+        setAudioFileError(
+          error instanceof AudioFileError
+            ? error.message
+            : "The audio file could not be played."
+        );
+      }
+    );
+  };
 
   useEffect(() => {
     console.log("Creating voice control");
-    VoiceControl.create().then((vc) => {
-      console.log("Voice control created");
-      voiceControl.current = vc;
-      rerender({});
-    });
+    connectMicrophone(loadMicrophoneSettings());
     return () => {
       console.log("Disposing voice control");
+      gameAudio.current?.dispose();
       voiceControl.current?.dispose();
     };
+  }, [connectMicrophone]);
+
+  useEffect(() => {
+    // hot-plug: refresh the list and recover once a device shows up again
+    const onDeviceChange = () =>
+      listMicrophones().then((devices) => {
+        setMicDevices(devices);
+        if (
+          devices.length > 0 &&
+          (micStatus === "disconnected" || micStatus === "noDevice")
+        ) {
+          const selectedGone = !devices.some(
+            (device) => device.deviceId === micSettings.deviceId
+          );
+          connectMicrophone(
+            selectedGone ? { ...micSettings, deviceId: null } : micSettings
+          );
+        }
+      });
+    navigator.mediaDevices?.addEventListener("devicechange", onDeviceChange);
+    return () =>
+      navigator.mediaDevices?.removeEventListener(
+        "devicechange",
+        onDeviceChange
+      );
+  }, [micStatus, micSettings, connectMicrophone]);
+
+  const changeMicSettings = (settings: MicrophoneSettings) => {
+    setMicSettings(settings);
+    saveMicrophoneSettings(settings);
+    connectMicrophone(settings);
+  };
+
+  useEffect(() => {
+    saveAudioSettings(audioSettings);
+    gameAudio.current?.updateSettings(audioSettings);
+  }, [audioSettings]);
+
+  useEffect(() => () => paddleInput?.dispose(), [paddleInput]);
+
+  useEffect(() => () => secondInput?.dispose(), [secondInput]);
+
+  useEffect(() => {
+    if (telemetry) {
+      telemetry.visible = showTelemetry;
+      telemetry.logging = logTelemetry;
+    }
+  }, [telemetry, showTelemetry, logTelemetry]);
+
+  useEffect(() => saveProfileStore(profileStore), [profileStore]);
+
+  useEffect(() => saveHighScores(highScores), [highScores]);
+
+  useEffect(() => saveTrainingSessions(trainingSessions), [trainingSessions]);
+
+  useEffect(() => {
+    if (paddleInput instanceof PitchPaddleInput) {
+      paddleInput.setFilterSettings(filterSettings);
+    }
+  }, [paddleInput, filterSettings]);
+
+  const applyProfile = (profile: CalibrationProfile) => {
+    calibrationState.current = structuredClone(profile.state);
+    setCalibrationResult(profile.result);
+    setFilterSettings(profile.filterSettings);
+    setMapping(profile.mapping);
+    setSoundEvents(profile.soundEvents);
+  };
+
+  const changeMapping = (mapping: PitchMappingMode) => {
+    setMapping(mapping);
+    if (profileStore.selectedId !== null) {
+      setProfileStore(
+        updateProfile(profileStore, profileStore.selectedId, { mapping })
+      );
+    }
+  };
+
+  const changeSoundEvents = (settings: SoundEventSettings) => {
+    setSoundEvents(settings);
+    if (profileStore.selectedId !== null) {
+      setProfileStore(
+        updateProfile(profileStore, profileStore.selectedId, {
+          soundEvents: settings,
+        })
+      );
+    }
+  };
+
+  const changeFilterSettings = (settings: InputFilterSettings) => {
+    setFilterSettings(settings);
+    if (profileStore.selectedId !== null) {
+      setProfileStore(
+        updateProfile(profileStore, profileStore.selectedId, {
+          filterSettings: settings,
+        })
+      );
+    }
+  };
+
+  const currentPlayer =
+    playerName.trim() || selectedProfile(profileStore)?.name || "Player";
+  const twoPlayers = playMode !== "single";
+  const paddleInputOptions: PaddleInputOptions = {
+    voiceControl: voiceControl.current,
+    calibration: calibrationResult,
+    filterSettings,
+    mapping,
+    soundEvents,
+    // the pitch detector follows one voice, two need a band each
+    detection: twoPlayers ? "bandPeak" : "pitch",
+  };
+  const secondProfile = twoPlayers
+    ? profileStore.profiles.find((p) => p.id === secondProfileId) ?? null
+    : null;
+  const secondInputOptions: PaddleInputOptions | null = secondProfile && {
+    voiceControl: voiceControl.current,
+    calibration: secondProfile.result,
+    filterSettings: secondProfile.filterSettings,
+    mapping: secondProfile.mapping,
+    // claps and hums cannot be told apart between the players
+    soundEvents: { ...secondProfile.soundEvents, enabled: false },
+    detection: "bandPeak",
+    // player one's input already takes the launch and fire keys
+    keyCommands: false,
+  };
+  const bandsClash =
+    inputSource === "voice" &&
+    isCalibrationResultComplete(calibrationResult) &&
+    isCalibrationResultComplete(secondProfile?.result ?? null) &&
+    bandsOverlap(calibrationResult, secondProfile!.result);
+  const canStart =
+    isPaddleInputAvailable(inputSource, paddleInputOptions) &&
+    (!twoPlayers ||
+      (!!secondInputOptions &&
+        isPaddleInputAvailable("voice", secondInputOptions) &&
+        !bandsClash));
+
+  const onCalibrated = useCallback((result: CalibrationResult) => {
+    setCalibrationResult(result);
+    if (isCalibrationResultComplete(result)) {
+      setProfileStore((store) =>
+        store.selectedId === null
+          ? store
+          : updateProfile(store, store.selectedId, {
+              result,
+              state: structuredClone(calibrationState.current),
+            })
+      );
+    }
   }, []);
 
+  const startGame = () => {
+    const seed = Date.now();
+    const options = {
+      ...DEFAULT_GAME_OPTIONS,
+      lives,
+      mode: playMode,
+      difficulty,
+    };
+    recorder.current = new GameRecorder(
+      seed,
+      levelPack.levels,
+      options,
+      inputSource,
+      inputSource === "voice" ? calibrationResult : null
+    );
+    runStats.current = new RunStatsCollector();
+    playerNames.current = [
+      currentPlayer,
+      ...(secondProfile ? [secondProfile.name] : []),
+    ];
+    runInfo.current = {
+      player: playerNames.current.join(" & "),
+      inputSource,
+      levelPack: levelPack.name,
+    };
+    // one guide tone cannot lead two players
+    guidePitch.current =
+      !twoPlayers &&
+      inputSource === "voice" &&
+      isCalibrationResultComplete(calibrationResult)
+        ? (position) =>
+            frequencyForPosition(
+              mapping,
+              calibrationResult.minFreq,
+              calibrationResult.maxFreq,
+              position
+            )
+        : null;
+    gameAudio.current?.setBands(
+      [
+        inputSource === "voice" ? calibrationResult : null,
+        secondProfile?.result ?? null,
+      ].filter(isCalibrationResultComplete)
+    );
+    gameAudio.current?.resume();
+    setGameSeed(seed);
+    setGame(createGame(seed, levelPack.levels, options));
+    setPaddleInput(createPaddleInput(inputSource, paddleInputOptions));
+    setSecondInput(
+      secondInputOptions && createPaddleInput("voice", secondInputOptions)
+    );
+    const vc = voiceControl.current;
+    setTelemetry(
+      new Telemetry({
+        amplitudeThreshold:
+          inputSource === "voice"
+            ? calibrationResult?.amplitudeThreshold ?? null
+            : null,
+        latency:
+          vc && inputSource === "voice" ? () => vc.analysisLatency : null,
+      })
+    );
+    setMode("game");
+  };
+
+  const startTraining = () => {
+    gameAudio.current?.setGuideTone(null);
+    setGame(null);
+    setSecondInput(null);
+    // the game's input, so practice moves the paddle the same way
+    setPaddleInput(createPaddleInput("voice", paddleInputOptions));
+    setMode("training");
+  };
+
+  const onTrainingFinished = useCallback(
+    (summary: TrainingSummary) =>
+      setTrainingSessions((sessions) => addTrainingSession(sessions, summary)),
+    []
+  );
+
+  const pause = useCallback(() => {
+    gameAudio.current?.setGuideTone(null);
+    if (game) {
+      pauseGame(game);
+      setMode("paused");
+    }
+  }, [game]);
+
+  const resume = useCallback(() => {
+    if (game) {
+      resumeGame(game);
+      setMode("game");
+    }
+  }, [game]);
+
+  const togglePause = useCallback(
+    () => (mode === "game" ? pause : resume)(),
+    [mode, pause, resume]
+  );
+
+  useEffect(() => {
+    if (
+      micStatus === "disconnected" &&
+      mode === "game" &&
+      (paddleInput instanceof PitchPaddleInput || secondInput)
+    ) {
+      pause();
+    }
+  }, [micStatus, mode, paddleInput, secondInput, pause]);
+
+  const resumeAfterCalibration = () => {
+    // voice input has to pick up the new calibration
+    if (paddleInput instanceof PitchPaddleInput) {
+      setPaddleInput(createPaddleInput("voice", paddleInputOptions));
+    }
+    if (secondInput && secondInputOptions) {
+      setSecondInput(createPaddleInput("voice", secondInputOptions));
+    }
+    resume();
+  };
+
+  const quitGame = () => {
+    gameAudio.current?.setGuideTone(null);
+    setGame(null);
+    setPaddleInput(null);
+    setSecondInput(null);
+    setMode("welcome");
+  };
+
+  useEffect(() => {
+    if (mode !== "game" && mode !== "paused") {
+      return;
+    }
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (PAUSE_KEYS.includes(event.key)) {
+        event.preventDefault();
+        togglePause();
+      }
+    };
+    const onVisibilityChange = () => {
+      if (document.hidden && mode === "game") {
+        pause();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [mode, pause, togglePause]);
+
+  const onTick = useCallback(
+    (
+      state: GameState,
+      input: EngineInput,
+      pitch: PitchSample | null,
+      noise: NoiseEstimate | null,
+      events: GameEvent[]
+    ) => {
+      recorder.current?.record(state, input, pitch);
+      runStats.current?.record(state, pitch, noise, events);
+      events.forEach((event) => gameAudio.current?.play(event));
+      const target = catchTarget(state);
+      gameAudio.current?.setGuideTone(
+        target === null ? null : guidePitch.current?.(target) ?? null,
+        input.voiced
+      );
+    },
+    []
+  );
+
+  const onGameOver = useCallback((state: GameState) => {
+    gameAudio.current?.setGuideTone(null);
+    setLastGame(state);
+    if (runStats.current) {
+      const entry = createHighScoreEntry({
+        ...runInfo.current,
+        playedAt: Date.now(),
+        stats: runStats.current.stats,
+      });
+      setHighScores((entries) => addHighScore(entries, entry));
+      setLastRun(entry);
+    }
+    setGame(null);
+    setSecondInput(null);
+    setRecording(recorder.current?.recorded ?? null);
+    setMode("game-over");
+  }, []);
+
+  const downloadTelemetry = () =>
+    telemetry &&
+    downloadFile(
+      `voice-arkanoid-metrics-${new Date()
+        .toISOString()
+        .replace(/:/g, "-")}.csv`,
+      telemetryToCsv(telemetry.log),
+      "text/csv"
+    );
+
+  const telemetryControls = (
+    <>
+      <label>
+        <input
+          type="checkbox"
+          checked={showTelemetry}
+          onChange={(e) => setShowTelemetry(e.target.checked)}
+        />{" "}
+        Debug overlay
+      </label>
+      <label>
+        <input
+          type="checkbox"
+          checked={logTelemetry}
+          onChange={(e) => setLogTelemetry(e.target.checked)}
+        />{" "}
+        Log metrics
+      </label>
+      <button disabled={!telemetry} onClick={downloadTelemetry}>
+        Download metrics log
+      </button>
+    </>
+  );
+
+  const loadRecording = (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    loadRecordingFile(file).then(
+      (recording) => {
+        setRecording(recording);
+        setRecordingError(null);
+        setMode("replay");
+      },
+      (error: Error) => setRecordingError(error.message)
+    );
+  };
+
+  const loadLevels = (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    loadLevelPackFile(file).then(
+      (pack) => {
+        setLevelPack(pack);
+        setLevelError(null);
+      },
+      (error: Error) => setLevelError(error.message)
+    );
+  };
+
+  const winner = lastGame && versusWinner(lastGame);
+
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 p-4">
       <h1 className="text-3xl font-bold mb-4">
@@ -45,21 +686,216 @@ function App() {
           Use your voice (whistle) to control the paddle. Pitch sets the
           position.
         </p>
+        <MicrophonePanel
+          status={micStatus}
+          devices={micDevices}
+          settings={micSettings}
+          onChange={changeMicSettings}
+          onRetry={() => connectMicrophone(micSettings)}
+          audioFile={audioFile}
+          audioFileError={audioFileError}
+          onAudioFile={openAudioFile}
+          onUseMicrophone={() => connectMicrophone(micSettings)}
+        />
+        <label>
+          Control:{" "}
+          <select
+            value={inputSource}
+            onChange={(e) =>
+              setInputSource(e.target.value as PaddleInputSource)
+            }
+          >
+            {PADDLE_INPUT_SOURCES.map((source) => (
+              <option key={source} value={source}>
+                {PADDLE_INPUT_LABEL[source]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div>
+          Levels: {levelPack.name} ({levelPack.levels.length}){" "}
+          <label>
+            Load level file:{" "}
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => loadLevels(e.target.files?.[0])}
+            />
+          </label>
+          {levelPack !== BUNDLED_LEVEL_PACK && (
+            <button onClick={() => setLevelPack(BUNDLED_LEVEL_PACK)}>
+              Use bundled levels
+            </button>
+          )}
+          {levelError && <p className="text-red-500">{levelError}</p>}
+        </div>
+        <ProfilePicker
+          profiles={profileStore.profiles}
+          selected={selectedProfile(profileStore)}
+          canSaveCurrent={isCalibrationResultComplete(calibrationResult)}
+          onSelect={(id) => {
+            const profile = profileStore.profiles.find((p) => p.id === id);
+            if (profile) {
+              applyProfile(profile);
+            }
+            setProfileStore(selectProfile(profileStore, id));
+          }}
+          onSaveCurrent={(name) =>
+            calibrationResult &&
+            setProfileStore(
+              addProfile(
+                profileStore,
+                name,
+                calibrationResult,
+                mapping,
+                calibrationState.current,
+                filterSettings,
+                soundEvents
+              )
+            )
+          }
+          onRename={(id, name) =>
+            setProfileStore(updateProfile(profileStore, id, { name }))
+          }
+          onDelete={(id) => setProfileStore(deleteProfile(profileStore, id))}
+          onImport={(profile) => {
+            applyProfile(profile);
+            setProfileStore(importProfile(profileStore, profile));
+          }}
+        />
+        <label>
+          Pitch mapping:{" "}
+          <select
+            value={mapping}
+            onChange={(e) => changeMapping(e.target.value as PitchMappingMode)}
+          >
+            {PITCH_MAPPING_MODES.map((mode) => (
+              <option key={mode} value={mode}>
+                {PITCH_MAPPING_LABEL[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <FilterSettingsPanel
+          settings={filterSettings}
+          onChange={changeFilterSettings}
+        />
+        <AudioSettingsPanel
+          settings={audioSettings}
+          guideToneAvailable={
+            !!voiceControl.current &&
+            isCalibrationResultComplete(calibrationResult) &&
+            isAbsoluteMapping(mapping)
+          }
+          onChange={setAudioSettings}
+        />
         <button
           disabled={!voiceControl.current}
-          onClick={() => setMode("calibrating")}
+          onClick={() => {
+            pause();
+            setMode("calibrating");
+          }}
         >
           Calibrate
         </button>
+        <label>
+          Player:{" "}
+          <input
+            type="text"
+            value={playerName}
+            placeholder={selectedProfile(profileStore)?.name ?? "Player"}
+            onChange={(e) => setPlayerName(e.target.value)}
+          />
+        </label>
+        <label>
+          Lives:{" "}
+          <select
+            value={lives}
+            onChange={(e) => setLives(Number(e.target.value))}
+          >
+            {Array.from({ length: MAX_LIVES }, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Difficulty:{" "}
+          <select
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as DifficultyPreset)}
+          >
+            {DIFFICULTY_PRESETS.map((preset) => (
+              <option key={preset} value={preset}>
+                {DIFFICULTY_LABEL[preset]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div>
+          <label>
+            Players:{" "}
+            <select
+              value={playMode}
+              onChange={(e) => setPlayMode(e.target.value as PlayMode)}
+            >
+              {PLAY_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {PLAY_MODE_LABEL[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {twoPlayers && (
+            <>
+              <label>
+                {" "}
+                Player 2 whistles with:{" "}
+                <select
+                  value={secondProfile?.id ?? ""}
+                  onChange={(e) => setSecondProfileId(e.target.value || null)}
+                >
+                  <option value="">Choose a profile</option>
+                  {profileStore.profiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <p>
+                Both players share the microphone. Calibrate each player in turn
+                and save them as profiles, one low and one high whistle. Player
+                1 uses the current calibration or control.
+              </p>
+              {bandsClash && (
+                <p className="text-red-500">
+                  The players&apos; pitch ranges overlap - recalibrate one of
+                  them further apart.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+        <button disabled={!canStart} onClick={startGame}>
+          Start Game
+        </button>
         <button
-          disabled={
-            !voiceControl.current ||
-            !isCalibrationResultComplete(calibrationResult)
-          }
-          onClick={() => setMode("game")}
+          disabled={!isPaddleInputAvailable("voice", paddleInputOptions)}
+          onClick={startTraining}
         >
-          Start Game
+          Pitch training
         </button>
+        <label>
+          Replay a recording:{" "}
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => loadRecording(e.target.files?.[0])}
+          />
+        </label>
+        {recordingError && <p className="text-red-500">{recordingError}</p>}
       </div>
       {(() => {
         switch (mode) {
@@ -75,37 +911,142 @@ function App() {
               </div>
             );
           case "game":
+          case "paused":
             return (
-              voiceControl.current &&
-              isCalibrationResultComplete(calibrationResult) && (
-                <Arkanoid
-                  minFreq={calibrationResult.minFreq}
-                  maxFreq={calibrationResult.maxFreq}
-                  amplitudeThreshold={calibrationResult.amplitudeThreshold}
-                  voiceControl={voiceControl.current}
-                  onGameOver={(score) => {
-                    setScore(score);
-                    setMode("game-over");
-                  }}
-                />
+              game &&
+              paddleInput && (
+                <div className="mt-4 w-full">
+                  <div className="flex flex-row">
+                    {mode === "game" ? (
+                      <button onClick={pause}>Pause</button>
+                    ) : (
+                      <>
+                        <button onClick={resume}>Resume</button>
+                        <button
+                          disabled={!voiceControl.current}
+                          onClick={() => setMode("calibrating")}
+                        >
+                          Recalibrate
+                        </button>
+                        <button onClick={quitGame}>Quit run</button>
+                      </>
+                    )}
+                    {telemetryControls}
+                  </div>
+                  <Arkanoid
+                    key={gameSeed}
+                    game={game}
+                    input={paddleInput}
+                    secondInput={secondInput}
+                    telemetry={telemetry}
+                    onTick={onTick}
+                    onPauseCommand={togglePause}
+                    onGameOver={onGameOver}
+                  />
+                </div>
               )
             );
           case "calibrating":
             return (
               voiceControl.current && (
-                <Calibration
-                  voiceControl={voiceControl.current}
-                  calibrationState={calibrationState}
-                  onCalibrated={setCalibrationResult}
-                />
+                <>
+                  {game && (
+                    <button onClick={resumeAfterCalibration}>
+                      Back to the paused game
+                    </button>
+                  )}
+                  <Calibration
+                    voiceControl={voiceControl.current}
+                    calibrationState={calibrationState}
+                    onCalibrated={onCalibrated}
+                  />
+                  <SoundCommandsPanel
+                    voiceControl={voiceControl.current}
+                    calibration={calibrationResult}
+                    settings={soundEvents}
+                    onChange={changeSoundEvents}
+                  />
+                </>
               )
             );
           case "game-over":
             return (
-              <div className="mt-4 text-xl font-bold text-red-500">
-                Game Over! Final Score: {score}
+              <div className="mt-4">
+                <div className="text-xl font-bold text-red-500">
+                  Game Over! Final Score: {lastRun?.stats.score ?? 0}
+                </div>
+                {lastGame && lastGame.mode !== "single" && (
+                  <p>
+                    {lastGame.scores
+                      .map(
+                        (score, player) =>
+                          `${playerNames.current[player]}: ${score}`
+                      )
+                      .join(", ")}
+                    {lastGame.mode === "versus" &&
+                      (winner === null
+                        ? " - a draw!"
+                        : ` - ${playerNames.current[winner]} wins!`)}
+                  </p>
+                )}
+                {lastGame && (
+                  <DifficultySummary
+                    report={difficultyReport(lastGame.difficulty)}
+                  />
+                )}
+                {lastRun && <RunSummary entry={lastRun} entries={highScores} />}
+                {telemetry && telemetry.logLength > 0 && (
+                  <button onClick={downloadTelemetry}>
+                    Download metrics log
+                  </button>
+                )}
+                {recording && (
+                  <>
+                    <button
+                      onClick={() =>
+                        downloadFile(
+                          recordingFileName(recording),
+                          JSON.stringify(recording),
+                          "application/json"
+                        )
+                      }
+                    >
+                      Download recording
+                    </button>
+                    <button onClick={() => setMode("replay")}>
+                      Watch replay
+                    </button>
+                  </>
+                )}
               </div>
             );
+          case "training":
+            return (
+              paddleInput &&
+              isCalibrationResultComplete(calibrationResult) && (
+                <div className="mt-4 w-full">
+                  <button onClick={quitGame}>Stop training</button>
+                  <Training
+                    input={paddleInput}
+                    calibration={calibrationResult}
+                    mapping={mapping}
+                    player={currentPlayer}
+                    sessions={trainingSessions}
+                    onFinished={onTrainingFinished}
+                  />
+                </div>
+              )
+            );
+          case "replay":
+            return (
+              recording && (
+                <Replay
+                  key={recording.createdAt}
+                  recording={recording}
+                  onExit={() => setMode("welcome")}
+                />
+              )
+            );
         }
       })()}
     </div>
@@ -1,218 +1,338 @@
-import { useEffect, useRef } from "react";
-import { VoiceControl } from "./voiceControl";
-
-export const CANVAS_WIDTH = 300;
-export const CANVAS_HEIGHT = 300;
-const PADDLE_WIDTH = CANVAS_WIDTH / 4;
-const PADDLE_HEIGHT = CANVAS_HEIGHT / 60;
-const BALL_RADIUS = PADDLE_HEIGHT;
-const BRICK_ROWS = 5;
-const BRICK_COLUMNS = 8;
-const BRICK_WIDTH = CANVAS_WIDTH / 10;
-const BRICK_HEIGHT = CANVAS_HEIGHT / 30;
-const BRICK_PADDING = PADDLE_HEIGHT;
-const BRICK_OFFSET_TOP = BRICK_PADDING;
-const BRICK_OFFSET_LEFT =
-  CANVAS_WIDTH - BRICK_COLUMNS * (BRICK_WIDTH + BRICK_PADDING);
-const BALL_ANGLE_ADJUSTMENT = Math.PI / 3;
+import { useEffect, useRef, useState } from "react";
+import { PaddleInput } from "./paddleInput";
+import { NoiseEstimate } from "./noiseTracker";
+import { Recording, replayInput } from "./recording";
+import { PitchSample } from "./voiceControl";
+import { canvasStyle, fitCanvas } from "./canvasScaling";
+import { drawTelemetry, Telemetry } from "./telemetry";
+import {
+  POWER_UP_COLOR,
+  POWER_UP_LABEL,
+  POWER_UP_NAME,
+  TIMED_POWER_UPS,
+} from "./powerUps";
+import {
+  BALL_RADIUS,
+  Brick,
+  BRICK_HEIGHT,
+  BRICK_WIDTH,
+  CAPSULE_HEIGHT,
+  CAPSULE_WIDTH,
+  currentLevel,
+  GameAction,
+  GameEvent,
+  GameState,
+  LASER_LENGTH,
+  PADDLE_HEIGHT,
+  paddleWidth,
+  advance,
+  EngineInput,
+  isGameOver,
+  serveCountdown,
+  TICK_SECONDS,
+  WORLD_HEIGHT,
+  WORLD_WIDTH,
+} from "./engine";
+
+function brickColor(brick: Brick) {
+  switch (brick.type) {
+    case "indestructible":
+      return "#808080";
+    case "explosive":
+      return "#FF8C00";
+    case "normal":
+      // multi-hit bricks get darker the more hits they have left
+      return `rgb(0, ${Math.max(80, 255 - (brick.hits - 1) * 45)}, 0)`;
+  }
+}
+
+// player 1 first
+const PADDLE_COLORS = ["#0000FF", "#9400D3"];
+
+function drawGame(
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  noise: NoiseEstimate | null
+) {
+  // the canvas is scaled to world units, see fitCanvas
+  ctx.clearRect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+
+  // Draw paddles
+  state.paddles.forEach((paddle, player) => {
+    ctx.fillStyle = PADDLE_COLORS[player];
+    ctx.fillRect(paddle.x, paddle.y, paddleWidth(state), PADDLE_HEIGHT);
+  });
+
+  // Draw balls
+  ctx.fillStyle = "#FF0000";
+  state.balls.forEach((ball) => {
+    ctx.beginPath();
+    ctx.arc(ball.x, ball.y, BALL_RADIUS, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.closePath();
+  });
+
+  // Draw lasers
+  ctx.strokeStyle = POWER_UP_COLOR.laser;
+  state.lasers.forEach((laser) => {
+    ctx.beginPath();
+    ctx.moveTo(laser.x, laser.y);
+    ctx.lineTo(laser.x, laser.y + LASER_LENGTH);
+    ctx.stroke();
+  });
+
+  // Draw bricks
+  state.bricks.forEach((brick) => {
+    if (brick.hits > 0) {
+      ctx.fillStyle = brickColor(brick);
+      ctx.fillRect(brick.x, brick.y, BRICK_WIDTH, BRICK_HEIGHT);
+    }
+  });
+
+  // Draw power-up capsules
+  ctx.font = "8px Arial";
+  ctx.textAlign = "center";
+  state.capsules.forEach((capsule) => {
+    ctx.fillStyle = POWER_UP_COLOR[capsule.kind];
+    ctx.fillRect(capsule.x, capsule.y, CAPSULE_WIDTH, CAPSULE_HEIGHT);
+    ctx.fillStyle = "#FFFFFF";
+    ctx.fillText(
+      POWER_UP_LABEL[capsule.kind],
+      capsule.x + CAPSULE_WIDTH / 2,
+      capsule.y + CAPSULE_HEIGHT - 1
+    );
+  });
+  ctx.textAlign = "start";
+
+  // Draw score, lives and active power-ups
+  ctx.font = "16px Arial";
+  ctx.fillStyle = "#000000";
+  if (state.mode === "versus") {
+    ctx.fillStyle = PADDLE_COLORS[0];
+    ctx.fillText(`P1: ${state.scores[0]}`, 8, 20);
+    ctx.fillStyle = PADDLE_COLORS[1];
+    ctx.fillText(`P2: ${state.scores[1]}`, 88, 20);
+    ctx.fillStyle = "#000000";
+  } else {
+    ctx.fillText(`Score: ${state.score}`, 8, 20);
+  }
+  ctx.fillText(`Lives: ${state.lives}`, WORLD_WIDTH - 70, 20);
+  ctx.font = "10px Arial";
+  TIMED_POWER_UPS.filter((kind) => state.effects[kind] > 0).forEach(
+    (kind, i) => {
+      const seconds = Math.ceil(state.effects[kind] * TICK_SECONDS);
+      ctx.fillStyle = POWER_UP_COLOR[kind];
+      ctx.fillText(`${POWER_UP_NAME[kind]} ${seconds}s`, 8, 34 + i * 12);
+    }
+  );
+
+  if (noise?.tooNoisy) {
+    ctx.font = "12px Arial";
+    ctx.fillStyle = "#FF0000";
+    ctx.textAlign = "center";
+    ctx.fillText(
+      "Too noisy here - whistles may be missed",
+      WORLD_WIDTH / 2,
+      WORLD_HEIGHT - 8
+    );
+    ctx.textAlign = "start";
+  }
+
+  const message = phaseMessage(state);
+  if (message) {
+    ctx.font = "20px Arial";
+    ctx.fillStyle = "#000000";
+    ctx.textAlign = "center";
+    ctx.fillText(message, WORLD_WIDTH / 2, WORLD_HEIGHT / 2);
+    ctx.textAlign = "start";
+  }
+}
+
+function phaseMessage(state: GameState) {
+  switch (state.phase) {
+    case "serve":
+      return `${currentLevel(state).name} - ${serveCountdown(state)}`;
+    case "lifeLost":
+      return `Ball lost, ${state.lives} left`;
+    case "levelCleared":
+      return "Level cleared!";
+    case "paused":
+      return "Paused";
+    case "playing":
+    case "gameOver":
+      return null;
+  }
+}
+
+/** Live controls for the game loop, read every frame. */
+export type Playback = {
+  paused: boolean;
+  speed: number;
+  // ticks to run while paused, consumed by the next frame
+  pendingSteps: number;
+};
 
 export function Arkanoid({
-  minFreq,
-  maxFreq,
-  amplitudeThreshold,
-  voiceControl,
+  game,
+  input,
+  secondInput,
+  replay,
+  playback,
+  telemetry,
+  onTick,
+  onPauseCommand,
   onGameOver,
 }: {
-  minFreq: number;
-  maxFreq: number;
-  amplitudeThreshold: number;
-  voiceControl: VoiceControl;
-  onGameOver: (score: number) => void;
+  // owned by the caller so a run survives the component being unmounted
+  game: GameState;
+  input?: PaddleInput;
+  // player 2's paddle in two-player modes
+  secondInput?: PaddleInput | null;
+  // when given, ticks are driven by the recorded input instead of `input`
+  replay?: Recording;
+  playback?: { current: Playback };
+  // debug metrics of every frame, drawn over the game when visible
+  telemetry?: Telemetry | null;
+  onTick?: (
+    state: GameState,
+    input: EngineInput,
+    pitch: PitchSample | null,
+    noise: NoiseEstimate | null,
+    events: GameEvent[]
+  ) => void;
+  // "pause" commands from the input, e.g. a clap
+  onPauseCommand?: () => void;
+  onGameOver: (state: GameState) => void;
 }) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const paddle = useRef({
-    x: CANVAS_WIDTH / 2 - PADDLE_WIDTH / 2,
-    y: CANVAS_HEIGHT - PADDLE_HEIGHT - 10,
-  });
-  const ball = useRef({
-    x: CANVAS_WIDTH / 2,
-    y: CANVAS_HEIGHT - 30,
-    dx: PADDLE_HEIGHT / 6,
-    dy: PADDLE_HEIGHT / -5,
-  });
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [fullscreen, setFullscreen] = useState(false);
 
-  const generateBricks = () => {
-    const newBricks = [];
-    for (let c = 0; c < BRICK_COLUMNS; c++) {
-      for (let r = 0; r < BRICK_ROWS; r++) {
-        newBricks.push({
-          x: c * (BRICK_WIDTH + BRICK_PADDING) + BRICK_OFFSET_LEFT,
-          y: r * (BRICK_HEIGHT + BRICK_PADDING) + BRICK_OFFSET_TOP,
-          status: 1,
-        });
-      }
+  useEffect(() => {
+    const onFullscreenChange = () =>
+      setFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener("fullscreenchange", onFullscreenChange);
+    return () =>
+      document.removeEventListener("fullscreenchange", onFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      containerRef.current?.requestFullscreen().catch((error) => {
+        console.warn("Fullscreen not available", error);
+      });
     }
-    return newBricks;
   };
-  const bricks = useRef<{ x: number; y: number; status: number }[]>(
-    generateBricks()
-  );
-  const score = useRef(0);
-  const level = useRef(1);
 
   // Game loop
   useEffect(() => {
-    const canvas = canvasRef.current;
-    const ctx = canvas!.getContext("2d")!;
+    const canvas = canvasRef.current!;
+    const ctx = canvas.getContext("2d")!;
+    const state = game;
     let animationFrameId: number;
+    let lastFrameAt: number | null = null;
+    // actions wait here until a tick runs so none are lost on short frames
+    let pendingActions: GameAction[] = [];
+    input?.attach?.(canvas);
+    secondInput?.attach?.(canvas);
 
-    const paddleWidth = () => PADDLE_WIDTH / level.current;
-
-    const updatePaddlePosition = () => {
-      const { frequency: maxFrequency, amplitude: maxAmplitude } =
-        voiceControl.getMaxAmplitudeFreq(minFreq, maxFreq);
-
-      if (maxAmplitude > amplitudeThreshold) {
-        const normalizedPosition =
-          (maxFrequency - minFreq) / (maxFreq - minFreq);
-        const newPaddleX = normalizedPosition * (CANVAS_WIDTH - paddleWidth());
-        paddle.current.x = newPaddleX;
+    const gameLoop = (now: number) => {
+      const elapsed = lastFrameAt === null ? 0 : (now - lastFrameAt) / 1000;
+      lastFrameAt = now;
+      let dt = elapsed * (playback?.current.speed ?? 1);
+      if (playback?.current.paused) {
+        dt = playback.current.pendingSteps * TICK_SECONDS;
+        playback.current.pendingSteps = 0;
       }
-    };
-
-    const updateBallPosition = () => {
-      const prev = ball.current;
-      const newX = prev.x + prev.dx;
-      const newY = prev.y + prev.dy;
-      let newDx = prev.dx;
-      let newDy = prev.dy;
 
-      // Wall collision
-      if (newX + BALL_RADIUS > CANVAS_WIDTH || newX - BALL_RADIUS < 0) {
-        newDx = -newDx;
-      }
-      if (newY - BALL_RADIUS < 0) {
-        newDy = -newDy;
+      const target = input?.read() ?? null;
+      const secondTarget = secondInput?.read() ?? null;
+      const commands = [
+        ...(input?.pollActions?.() ?? []),
+        ...(secondInput?.pollActions?.() ?? []),
+      ];
+      for (const command of commands) {
+        if (command === "pause") {
+          onPauseCommand?.();
+        } else if (state.phase !== "paused") {
+          pendingActions.push(command);
+        }
       }
-
-      // Paddle collision
-      if (
-        newY + BALL_RADIUS > paddle.current.y &&
-        newX > paddle.current.x &&
-        newX < paddle.current.x + paddleWidth() &&
-        newDy > 0
-      ) {
-        newDy = -newDy;
-        const ballSpeed = Math.sqrt(newDx ** 2 + newDy ** 2);
-        const paddleRatio = (newX - paddle.current.x) / paddleWidth() - 0.5; // -0.5 to 0.5
-        const ballVAngle =
-          Math.atan2(newDy, newDx) + paddleRatio * BALL_ANGLE_ADJUSTMENT;
-        newDx = Math.cos(ballVAngle) * ballSpeed;
-        newDy = Math.sin(ballVAngle) * ballSpeed;
-        if (bricks.current.every((brick) => brick.status === 0)) {
-          // All bricks are destroyed -> next level
-          level.current += 1;
-          bricks.current = generateBricks();
+      const pitch = input?.lastPitch ?? null;
+      const noise = input?.noise ?? null;
+      telemetry?.record(now, pitch, noise, target);
+      const liveInput = (): EngineInput => {
+        const tickInput: EngineInput = secondInput
+          ? { target, secondTarget }
+          : { target };
+        if (input?.voiced !== undefined) {
+          tickInput.voiced = input.voiced;
         }
+        if (pendingActions.length > 0) {
+          tickInput.actions = pendingActions;
+          pendingActions = [];
+        }
+        return tickInput;
+      };
+      const events = advance(
+        state,
+        dt,
+        (state) => (replay ? replayInput(replay, state.tick) : liveInput()),
+        (tickInput, tickEvents) =>
+          onTick?.(state, tickInput, pitch, noise, tickEvents)
+      );
+      fitCanvas(canvas, ctx, WORLD_WIDTH, WORLD_HEIGHT);
+      drawGame(ctx, state, noise);
+      if (telemetry?.visible) {
+        drawTelemetry(ctx, telemetry, WORLD_WIDTH);
       }
-
-      // Game over
-      if (newY + BALL_RADIUS > CANVAS_HEIGHT) {
-        onGameOver(score.current);
+      if (events.some((event) => event.type === "gameOver")) {
+        onGameOver(state);
       }
-
-      ball.current = { x: newX, y: newY, dx: newDx, dy: newDy };
-    };
-
-    const checkBrickCollision = () => {
-      const prevBricks = bricks.current;
-      const newBricks = [...prevBricks];
-      let collided = false;
-
-      for (let i = 0; i < newBricks.length; i++) {
-        const brick = newBricks[i];
-        if (brick.status === 1) {
-          if (
-            ball.current.x > brick.x &&
-            ball.current.x < brick.x + BRICK_WIDTH &&
-            ball.current.y > brick.y &&
-            ball.current.y < brick.y + BRICK_HEIGHT
-          ) {
-            ball.current.dy = -ball.current.dy;
-            brick.status = 0;
-            score.current += 1 << (level.current - 1);
-            collided = true;
-          }
-        }
+      if (isGameOver(state)) {
+        return;
       }
-
-      bricks.current = collided ? newBricks : prevBricks;
-    };
-
-    const draw = () => {
-      ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
-      // Draw paddle
-      ctx.fillStyle = "#0000FF";
-      ctx.fillRect(
-        paddle.current.x,
-        paddle.current.y,
-        paddleWidth(),
-        PADDLE_HEIGHT
-      );
-
-      // Draw ball
-      ctx.beginPath();
-      ctx.arc(ball.current.x, ball.current.y, BALL_RADIUS, 0, Math.PI * 2);
-      ctx.fillStyle = "#FF0000";
-      ctx.fill();
-      ctx.closePath();
-
-      // Draw bricks
-      bricks.current.forEach((brick) => {
-        if (brick.status === 1) {
-          ctx.fillStyle = "#00FF00";
-          ctx.fillRect(brick.x, brick.y, BRICK_WIDTH, BRICK_HEIGHT);
-        }
-      });
-
-      // Draw score
-      ctx.font = "16px Arial";
-      ctx.fillStyle = "#000000";
-      ctx.fillText(`Score: ${score.current}`, 8, 20);
-    };
-
-    const gameLoop = () => {
-      updatePaddlePosition();
-      updateBallPosition();
-      checkBrickCollision();
-      draw();
       animationFrameId = requestAnimationFrame(gameLoop);
     };
 
-    gameLoop();
+    animationFrameId = requestAnimationFrame(gameLoop);
 
     return () => {
       cancelAnimationFrame(animationFrameId);
     };
   }, [
-    paddle,
-    ball,
-    bricks,
-    score,
-    minFreq,
-    maxFreq,
-    amplitudeThreshold,
-    voiceControl,
+    game,
+    input,
+    secondInput,
+    replay,
+    playback,
+    telemetry,
+    onTick,
+    onPauseCommand,
     onGameOver,
   ]);
 
   return (
-    <canvas
-      ref={canvasRef}
-      width={CANVAS_WIDTH}
-      height={CANVAS_HEIGHT}
-      className="border border-gray-300"
-    />
+    <div
+      ref={containerRef}
+      className={
+        fullscreen
+          ? "flex flex-col items-center justify-center bg-white"
+          : "flex flex-col items-center w-full"
+      }
+    >
+      <canvas
+        ref={canvasRef}
+        style={canvasStyle(WORLD_WIDTH, WORLD_HEIGHT, fullscreen)}
+        className="border border-gray-300"
+      />
+      {document.fullscreenEnabled && (
+        <button onClick={toggleFullscreen}>
+          {fullscreen ? "Exit fullscreen" : "Fullscreen"}
+        </button>
+      )}
+    </div>
   );
 }
@@ -0,0 +1,83 @@
+import {
+  AudioSettings,
+  FEEDBACK_MITIGATION_LABEL,
+  FEEDBACK_MITIGATIONS,
+  FeedbackMitigation,
+} from "./gameAudio";
+
+export function AudioSettingsPanel({
+  settings,
+  guideToneAvailable,
+  onChange,
+}: {
+  settings: AudioSettings;
+  // the guide tone needs an absolute pitch mapping and a calibration
+  guideToneAvailable: boolean;
+  onChange: (settings: AudioSettings) => void;
+}) {
+  return (
+    <details>
+      <summary>Sound</summary>
+      <div className="flex flex-col">
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.muted}
+            onChange={(e) => onChange({ ...settings, muted: e.target.checked })}
+          />{" "}
+          Mute
+        </label>
+        <label>
+          Volume:{" "}
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.volume}
+            disabled={settings.muted}
+            onChange={(e) =>
+              onChange({ ...settings, volume: Number(e.target.value) })
+            }
+          />{" "}
+          {Math.round(settings.volume * 100)}%
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.guideTone}
+            disabled={!guideToneAvailable}
+            onChange={(e) =>
+              onChange({ ...settings, guideTone: e.target.checked })
+            }
+          />{" "}
+          Guide tone (plays the pitch that catches the ball)
+        </label>
+        <label>
+          Keep game sounds out of the microphone:{" "}
+          <select
+            value={settings.mitigation}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                mitigation: e.target.value as FeedbackMitigation,
+              })
+            }
+          >
+            {FEEDBACK_MITIGATIONS.map((mitigation) => (
+              <option key={mitigation} value={mitigation}>
+                {FEEDBACK_MITIGATION_LABEL[mitigation]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {settings.guideTone && settings.mitigation === "gate" && (
+          <p className="text-red-500">
+            The guide tone plays continuously and cannot be gated, use echo
+            cancellation, filtering or headphones with it.
+          </p>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -1,9 +1,23 @@
 import { useEffect, useRef, useState } from "react";
-import { VoiceControl } from "./voiceControl";
-import { CANVAS_HEIGHT, CANVAS_WIDTH } from "./Arkanoid";
+import { PitchSample, VoiceControl } from "./voiceControl";
+import { canvasStyle, fitCanvas } from "./canvasScaling";
+import { MIN_PITCH_CLARITY } from "./pitchDetection";
+import {
+  axisPosition,
+  axisTicks,
+  fitAxis,
+  formatHz,
+  FrequencyAxis,
+  FULL_AXIS,
+  noteName,
+  Spectrogram,
+  spectrumValue,
+  zoomAxis,
+} from "./spectrumView";
 import {
   CalibrationResult,
   CalibrationState,
+  assessCalibration,
   calibrationStateArrayForStep,
   CalibrationStep,
   evaluateState,
@@ -13,7 +27,20 @@ import {
 const WARMUP_TIME = 5000;
 const CALIBRATION_TIME = 10000;
 const LOWEST_FREQ = 200;
-const BAR_HEIGHT_SCALE = CANVAS_HEIGHT / 300; // 256 is the max amplitude but we want some gap at the top
+// drawing units, the canvas scales them to its displayed size
+const VIEW_WIDTH = 300;
+// spectrogram on top, the current spectrum below it and the axis labels last
+const WATERFALL_HEIGHT = 180;
+const SPECTRUM_HEIGHT = 150;
+const AXIS_HEIGHT = 30;
+const SPECTRUM_BOTTOM = WATERFALL_HEIGHT + SPECTRUM_HEIGHT;
+const VIEW_HEIGHT = SPECTRUM_BOTTOM + AXIS_HEIGHT;
+const BAR_HEIGHT_SCALE = SPECTRUM_HEIGHT / 300; // 256 is the max amplitude but we want some gap at the top
+// spectrogram resolution, about 3 seconds of history at 60 fps
+const WATERFALL_COLUMNS = 300;
+const WATERFALL_ROWS = 180;
+// each zoom step halves or doubles the visible range in octaves
+const ZOOM_STEP = 0.5;
 
 const CALIBRATION_STEPS: CalibrationStep[] = [
   "voiceAmplitude",
@@ -46,6 +73,17 @@ export function Calibration({
   const [calibrationStep, setCalibrationStep] =
     useState<CalibrationStep | null>(null);
   const calibrationStartedAt = useRef<number | null>(null);
+  // guided runs go through all the steps back to back
+  const guided = useRef(false);
+  const [axis, setAxis] = useState<FrequencyAxis>(FULL_AXIS);
+  // read by the drawing loop so zooming does not restart calibration
+  const axisRef = useRef(axis);
+  axisRef.current = axis;
+  // kept across calibration steps so the history does not reset
+  const [spectrogram] = useState(
+    () => new Spectrogram(WATERFALL_COLUMNS, WATERFALL_ROWS)
+  );
+  const pitchTraceRef = useRef<(number | null)[]>([]);
 
   useEffect(() => {
     let animationFrameId: number;
@@ -53,55 +91,103 @@ export function Calibration({
     const dataArray = voiceControl.prepareByteFrequencyArray();
     const canvas = canvasRef.current!;
     const ctx = canvas.getContext("2d")!;
+    const pitchTrace = pitchTraceRef.current;
     const draw = (
       result: CalibrationResult | null,
       elapsedMs: number | null,
       usedValue: { frequency: number } | { amplitude: number } | undefined,
+      pitch: PitchSample
     ) => {
+      const axis = axisRef.current;
+      const binHz = voiceControl.frequencyPerDataPoint;
       voiceControl.getByteFrequencyData(dataArray);
-      ctx.fillStyle = "rgb(0, 0, 0)";
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-      const barWidth = (canvas.width / dataArray.length) * 2.5;
-      let x = 0;
+      spectrogram.push(dataArray, binHz, axis);
 
-      for (let i = 0; i < dataArray.length; i++) {
-        const barHeight = dataArray[i] * BAR_HEIGHT_SCALE;
+      // detected pitch, only where it would count as voice
+      const voiced =
+        pitch.clarity > MIN_PITCH_CLARITY &&
+        pitch.frequency > 0 &&
+        (result === null || pitch.amplitude > result.amplitudeThreshold);
+      pitchTrace.push(voiced ? pitch.frequency : null);
+      if (pitchTrace.length > spectrogram.length) {
+        pitchTrace.shift();
+      }
 
-        const r = barHeight + 25 * (i / dataArray.length);
-        const g = 250 * (i / dataArray.length);
-        const b = 50;
+      fitCanvas(canvas, ctx, VIEW_WIDTH, VIEW_HEIGHT);
+      ctx.fillStyle = "rgb(0, 0, 0)";
+      ctx.fillRect(0, 0, VIEW_WIDTH, VIEW_HEIGHT);
+      spectrogram.draw(ctx, 0, 0, VIEW_WIDTH, WATERFALL_HEIGHT);
 
-        ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-        ctx.fillRect(x, canvas.height - barHeight, barWidth, barHeight);
+      const frequencyX = (frequency: number) =>
+        axisPosition(axis, frequency) * VIEW_WIDTH;
+      const amplitudeY = (amplitude: number) =>
+        SPECTRUM_BOTTOM - amplitude * BAR_HEIGHT_SCALE;
 
-        x += barWidth + 1;
+      for (let x = 0; x < VIEW_WIDTH; x++) {
+        const value = spectrumValue(
+          dataArray,
+          binHz,
+          axis,
+          x / VIEW_WIDTH,
+          (x + 1) / VIEW_WIDTH
+        );
+        const position = x / VIEW_WIDTH;
+        ctx.fillStyle = `rgb(${value + 25 * position}, ${250 * position}, 50)`;
+        ctx.fillRect(x, amplitudeY(value), 1, value * BAR_HEIGHT_SCALE);
       }
 
+      ctx.strokeStyle = "cyan";
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      const rowHeight = WATERFALL_HEIGHT / spectrogram.length;
+      const traceOffset = spectrogram.length - pitchTrace.length;
+      let drawing = false;
+      pitchTrace.forEach((frequency, i) => {
+        const y = (traceOffset + i + 0.5) * rowHeight;
+        if (frequency === null) {
+          drawing = false;
+        } else if (drawing) {
+          ctx.lineTo(frequencyX(frequency), y);
+        } else {
+          ctx.moveTo(frequencyX(frequency), y);
+          drawing = true;
+        }
+      });
+      ctx.stroke();
+      ctx.lineWidth = 1;
+
       // Draw lines
       const drawLineAtAmplitude = (amplitude: number, color: string) => {
-        const y = canvas.height - amplitude * BAR_HEIGHT_SCALE;
+        const y = amplitudeY(amplitude);
         ctx.beginPath();
         ctx.moveTo(0, y);
-        ctx.lineTo(canvas.width, y);
+        ctx.lineTo(VIEW_WIDTH, y);
         ctx.strokeStyle = color;
         ctx.stroke();
       };
       const drawLineAtFrequency = (frequency: number, color: string) => {
-        const x =
-          (frequency / voiceControl.frequencyPerDataPoint) * (barWidth + 1);
+        const x = frequencyX(frequency);
         ctx.beginPath();
         ctx.moveTo(x, 0);
-        ctx.lineTo(x, canvas.height);
+        ctx.lineTo(x, SPECTRUM_BOTTOM);
         ctx.strokeStyle = color;
         ctx.stroke();
       };
       if (result) {
+        if (result.minFreq > 0 && result.maxFreq > result.minFreq) {
+          ctx.fillStyle = "rgba(80, 120, 255, 0.15)";
+          ctx.fillRect(
+            frequencyX(result.minFreq),
+            0,
+            frequencyX(result.maxFreq) - frequencyX(result.minFreq),
+            SPECTRUM_BOTTOM
+          );
+          drawLineAtFrequency(result.minFreq, "blue");
+          drawLineAtFrequency(result.maxFreq, "blue");
+        }
         drawLineAtAmplitude(result.voiceAmplitude, "green");
         drawLineAtAmplitude(result.noiseAmplitude, "red");
         drawLineAtAmplitude(result.amplitudeThreshold, "orange");
-        drawLineAtFrequency(result.minFreq, "blue");
-        drawLineAtFrequency(result.maxFreq, "blue");
       }
       if (usedValue) {
         if ("amplitude" in usedValue) {
@@ -111,6 +197,35 @@ export function Calibration({
         }
       }
 
+      // Draw axis
+      ctx.font = "9px Arial";
+      ctx.textAlign = "center";
+      for (const frequency of axisTicks(axis)) {
+        const x = frequencyX(frequency);
+        ctx.strokeStyle = "#666666";
+        ctx.beginPath();
+        ctx.moveTo(x, SPECTRUM_BOTTOM);
+        ctx.lineTo(x, SPECTRUM_BOTTOM + 4);
+        ctx.stroke();
+        ctx.fillStyle = "#ffffff";
+        ctx.fillText(formatHz(frequency), x, SPECTRUM_BOTTOM + 13);
+        ctx.fillStyle = "#999999";
+        ctx.fillText(noteName(frequency), x, SPECTRUM_BOTTOM + 24);
+      }
+      ctx.textAlign = "start";
+
+      ctx.font = "12px Arial";
+      ctx.fillStyle = "cyan";
+      if (voiced) {
+        ctx.textAlign = "end";
+        ctx.fillText(
+          `${Math.round(pitch.frequency)} Hz ${noteName(pitch.frequency)}`,
+          VIEW_WIDTH - 8,
+          16
+        );
+        ctx.textAlign = "start";
+      }
+
       // Draw countdown
       if (elapsedMs) {
         ctx.font = "16px Arial";
@@ -129,9 +244,12 @@ export function Calibration({
       }
     };
 
-    let result: CalibrationResult = evaluateState(calibrationState.current);
+    let result: CalibrationResult = evaluateState(
+      calibrationState.current
+    ).result;
     const calibrationLoop = () => {
       let usedValue = undefined;
+      const pitch = voiceControl.getPitch(null, null);
       const elapsed =
         calibrationStartedAt.current === null
           ? null
@@ -144,14 +262,22 @@ export function Calibration({
         // finished
         console.log("Calibration finished", result);
         onCalibrated(result);
-        setCalibrationStep(null);
-        calibrationStartedAt.current = null;
+        const nextStep =
+          calibrationStep === null
+            ? undefined
+            : CALIBRATION_STEPS[CALIBRATION_STEPS.indexOf(calibrationStep) + 1];
+        if (guided.current && nextStep) {
+          calibrationState.current[calibrationStateArrayForStep(nextStep)] = [];
+          setCalibrationStep(nextStep);
+          calibrationStartedAt.current = Date.now();
+        } else {
+          guided.current = false;
+          setCalibrationStep(null);
+          calibrationStartedAt.current = null;
+        }
       } else {
         // actually calibrating
-        const { frequency, amplitude } = voiceControl.getMaxAmplitudeFreq(
-          null,
-          null
-        );
+        const { frequency, amplitude, clarity } = pitch;
         if (calibrationStep === "voiceAmplitude") {
           calibrationState.current.voiceAmplitudes.push(amplitude);
           usedValue = { amplitude };
@@ -161,14 +287,15 @@ export function Calibration({
         } else if (
           calibrationStep === "frequencyRange" &&
           amplitude > result.amplitudeThreshold &&
+          clarity > MIN_PITCH_CLARITY &&
           frequency > LOWEST_FREQ
         ) {
           calibrationState.current.freqs.push(frequency);
           usedValue = { frequency };
         }
-        result = evaluateState(calibrationState.current);
+        result = evaluateState(calibrationState.current).result;
       }
-      draw(result, elapsed, usedValue);
+      draw(result, elapsed, usedValue, pitch);
       animationFrameId = requestAnimationFrame(calibrationLoop);
     };
 
@@ -183,17 +310,46 @@ export function Calibration({
     onCalibrated,
     calibrationStartedAt,
     calibrationStep,
+    spectrogram,
   ]);
 
-  const startCalibration = (step: CalibrationStep) => {
+  const startCalibration = (step: CalibrationStep, guidedRun = false) => {
+    guided.current = guidedRun;
     calibrationState.current[calibrationStateArrayForStep(step)] = [];
     setCalibrationStep(step);
     calibrationStartedAt.current = Date.now();
   };
 
+  const allStepsComplete = CALIBRATION_STEPS.every((step) =>
+    isCalibrationStepComplete(calibrationState.current, step)
+  );
+  const evaluation =
+    calibrationStep === null && allStepsComplete
+      ? evaluateState(calibrationState.current)
+      : null;
+  const quality = evaluation && assessCalibration(evaluation);
+  const calibratedRange = isCalibrationStepComplete(
+    calibrationState.current,
+    "frequencyRange"
+  )
+    ? evaluateState(calibrationState.current).result
+    : null;
+  const guidedStepPrefix =
+    guided.current && calibrationStep !== null
+      ? `Step ${CALIBRATION_STEPS.indexOf(calibrationStep) + 1} of ${
+          CALIBRATION_STEPS.length
+        }: `
+      : "";
+
   return (
-    <div className="mt-4 space-y-2">
+    <div className="mt-4 space-y-2 w-full">
       <div className="flex flex-row">
+        <button
+          disabled={calibrationStep !== null}
+          onClick={() => startCalibration(CALIBRATION_STEPS[0], true)}
+        >
+          {allStepsComplete ? "Redo guided calibration" : "Guided calibration"}
+        </button>
         {CALIBRATION_STEPS.map((step, idx) => (
           <button
             key={step}
@@ -220,13 +376,49 @@ export function Calibration({
         <p>
           {calibrationStep === null
             ? "No calibration in progress but you can test your whistling. Single sharp spike is good, multiple spikes or wider frequency range is bad."
-            : CALIBRATION_MESSAGE[calibrationStep]}
+            : guidedStepPrefix + CALIBRATION_MESSAGE[calibrationStep]}
         </p>
       </div>
+      {evaluation && quality && (
+        <div>
+          <p>
+            Calibration quality: {quality.score}/100 (SNR ~
+            {evaluation.diagnostics.snrDb.toFixed(0)} dB, range{" "}
+            {evaluation.diagnostics.rangeSemitones.toFixed(1)} ±{" "}
+            {evaluation.diagnostics.rangeDriftSemitones.toFixed(1)} semitones,{" "}
+            {evaluation.diagnostics.freqSamples} pitch samples)
+          </p>
+          {quality.problems.map((problem, idx) => (
+            <p key={idx} className="text-red-500">
+              {problem.message}{" "}
+              <button onClick={() => startCalibration(problem.step)}>
+                Redo {CALIBRATION_BUTTON[problem.step]}
+              </button>
+            </p>
+          ))}
+        </div>
+      )}
+      <div className="flex flex-row">
+        <button onClick={() => setAxis(zoomAxis(axis, ZOOM_STEP))}>
+          Zoom in
+        </button>
+        <button onClick={() => setAxis(zoomAxis(axis, 1 / ZOOM_STEP))}>
+          Zoom out
+        </button>
+        <button onClick={() => setAxis(FULL_AXIS)}>Full range</button>
+        <button
+          disabled={!calibratedRange}
+          onClick={() =>
+            calibratedRange &&
+            setAxis(fitAxis(calibratedRange.minFreq, calibratedRange.maxFreq))
+          }
+        >
+          Fit calibrated range
+        </button>
+      </div>
       <canvas
         ref={canvasRef}
-        width={CANVAS_WIDTH}
-        height={CANVAS_HEIGHT}
+        style={canvasStyle(VIEW_WIDTH, VIEW_HEIGHT)}
         className="border border-gray-300"
       />
     </div>
@@ -0,0 +1,86 @@
+import { DIFFICULTY_LABEL, DifficultyReport } from "./difficulty";
+
+type Factor = DifficultyReport["speed"];
+
+const formatFactor = (value: number) => `${value.toFixed(2)}x`;
+
+const formatShare = (value: number) => `${Math.round(value * 100)}%`;
+
+function FactorRow({
+  label,
+  factor,
+  format,
+}: {
+  label: string;
+  factor: Factor;
+  format: (value: number) => string;
+}) {
+  return (
+    <tr>
+      <td>{label}</td>
+      <td>
+        {factor.min === factor.max
+          ? format(factor.final)
+          : `${format(factor.min)} - ${format(factor.max)}, ended at ${format(
+              factor.final
+            )}`}
+      </td>
+    </tr>
+  );
+}
+
+/** What the difficulty controller changed during a run, and why. */
+export function DifficultySummary({ report }: { report: DifficultyReport }) {
+  if (report.preset === "off") {
+    return null;
+  }
+  return (
+    <div>
+      <p>
+        {DIFFICULTY_LABEL[report.preset]}: made easier {report.easier} and
+        harder {report.harder} times.
+      </p>
+      <table>
+        <tbody>
+          <FactorRow
+            label="Ball speed"
+            factor={report.speed}
+            format={formatFactor}
+          />
+          <FactorRow
+            label="Paddle width"
+            factor={report.width}
+            format={formatFactor}
+          />
+          <FactorRow
+            label="Serve assistance"
+            factor={report.assist}
+            format={formatShare}
+          />
+          <tr>
+            <td>Distance from the ball</td>
+            <td>
+              {report.meanTrackingError === null
+                ? "-"
+                : `${formatShare(
+                    report.meanTrackingError
+                  )} of the paddle's travel on average`}
+            </td>
+          </tr>
+          <tr>
+            <td>Voice dropouts</td>
+            <td>
+              {report.dropoutShare === null
+                ? "-"
+                : `${formatShare(report.dropoutShare)} of the time in play`}
+            </td>
+          </tr>
+          <tr>
+            <td>Balls missed</td>
+            <td>{report.misses}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import {
+  DEFAULT_INPUT_FILTER_SETTINGS,
+  INPUT_FILTER_LIMITS,
+  InputFilterSettings,
+  NumericFilterSetting,
+  SmoothingMode,
+} from "./inputFilter";
+
+const SMOOTHING_LABEL: Record<SmoothingMode, string> = {
+  none: "None",
+  exponential: "Exponential",
+  oneEuro: "One-Euro",
+};
+
+const NUMERIC_SETTINGS: { key: NumericFilterSetting; label: string }[] = [
+  { key: "gateHysteresis", label: "Gate hysteresis" },
+  { key: "medianWindow", label: "Median window" },
+  { key: "outlierSemitones", label: "Outlier jump (semitones, 0 = off)" },
+  { key: "outlierConfirmFrames", label: "Frames to confirm a jump" },
+  { key: "exponentialAlpha", label: "Exponential alpha" },
+  { key: "oneEuroMinCutoff", label: "One-Euro min cutoff (Hz)" },
+  { key: "oneEuroBeta", label: "One-Euro beta" },
+  { key: "maxSpeed", label: "Max paddle speed (widths/s, 0 = off)" },
+];
+
+export function FilterSettingsPanel({
+  settings,
+  onChange,
+}: {
+  settings: InputFilterSettings;
+  onChange: (settings: InputFilterSettings) => void;
+}) {
+  return (
+    <details>
+      <summary>Input filter settings</summary>
+      <div className="flex flex-col">
+        <label>
+          Smoothing:{" "}
+          <select
+            value={settings.smoothing}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                smoothing: e.target.value as SmoothingMode,
+              })
+            }
+          >
+            {Object.entries(SMOOTHING_LABEL).map(([mode, label]) => (
+              <option key={mode} value={mode}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.rejectOctaveJumps}
+            onChange={(e) =>
+              onChange({ ...settings, rejectOctaveJumps: e.target.checked })
+            }
+          />{" "}
+          Reject octave jumps
+        </label>
+        {NUMERIC_SETTINGS.map(({ key, label }) => (
+          <label key={key}>
+            {label}:{" "}
+            <input
+              type="range"
+              {...INPUT_FILTER_LIMITS[key]}
+              value={settings[key]}
+              onChange={(e) =>
+                onChange({ ...settings, [key]: Number(e.target.value) })
+              }
+            />{" "}
+            {settings[key]}
+          </label>
+        ))}
+        <button onClick={() => onChange(DEFAULT_INPUT_FILTER_SETTINGS)}>
+          Reset to defaults
+        </button>
+      </div>
+    </details>
+  );
+}
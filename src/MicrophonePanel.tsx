@@ -0,0 +1,117 @@
+import { MicrophoneSettings, MicrophoneStatus } from "./voiceControl";
+
+const STATUS_MESSAGE: Record<MicrophoneStatus, string> = {
+  pending: "Connecting to the microphone...",
+  ready: "Microphone ready.",
+  unsupported:
+    "This browser cannot access microphones. Voice control needs a recent browser over https.",
+  permissionDenied:
+    "Microphone access was denied. Allow it in the browser's site settings, then retry.",
+  noDevice: "No microphone found. Plug one in, it is picked up automatically.",
+  disconnected:
+    "The microphone was disconnected. Plug it back in or pick another one.",
+  error: "The microphone could not be opened. It may be in use elsewhere.",
+};
+
+export function MicrophonePanel({
+  status,
+  devices,
+  settings,
+  onChange,
+  onRetry,
+  audioFile,
+  audioFileError,
+  onAudioFile,
+  onUseMicrophone,
+}: {
+  status: MicrophoneStatus;
+  devices: MediaDeviceInfo[];
+  settings: MicrophoneSettings;
+  onChange: (settings: MicrophoneSettings) => void;
+  onRetry: () => void;
+  // name of the file playing in place of the microphone
+  audioFile: string | null;
+  audioFileError: string | null;
+  onAudioFile: (file: File) => void;
+  onUseMicrophone: () => void;
+}) {
+  return (
+    <details open={status !== "ready"}>
+      <summary>
+        Microphone
+        {status !== "ready" && status !== "pending" && " - not available"}
+        {audioFile && ` - using ${audioFile}`}
+      </summary>
+      <div className="flex flex-col">
+        {audioFile ? (
+          <p>
+            Playing {audioFile} in a loop in place of the microphone.{" "}
+            <button onClick={onUseMicrophone}>Use microphone</button>
+          </p>
+        ) : (
+          <p className={status === "ready" ? undefined : "text-red-500"}>
+            {STATUS_MESSAGE[status]}{" "}
+            {status !== "ready" && status !== "pending" && (
+              <button onClick={onRetry}>Retry</button>
+            )}
+          </p>
+        )}
+        <label>
+          Device:{" "}
+          <select
+            value={settings.deviceId ?? ""}
+            disabled={devices.length === 0}
+            onChange={(e) =>
+              onChange({ ...settings, deviceId: e.target.value || null })
+            }
+          >
+            <option value="">System default</option>
+            {devices.map((device, idx) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label || `Microphone ${idx + 1}`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.autoGainControl}
+            onChange={(e) =>
+              onChange({ ...settings, autoGainControl: e.target.checked })
+            }
+          />{" "}
+          Automatic gain control (changes the level calibration relies on, best
+          left off)
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.noiseSuppression}
+            onChange={(e) =>
+              onChange({ ...settings, noiseSuppression: e.target.checked })
+            }
+          />{" "}
+          Noise suppression
+        </label>
+        <p>Echo cancellation is set under Sound.</p>
+        <label>
+          Use audio file (WAV, OGG, ...) instead, for testing and demos:{" "}
+          <input
+            type="file"
+            accept="audio/*"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) {
+                onAudioFile(file);
+              }
+              // allows picking the same file again
+              e.target.value = "";
+            }}
+          />
+        </label>
+        {audioFileError && <p className="text-red-500">{audioFileError}</p>}
+      </div>
+    </details>
+  );
+}
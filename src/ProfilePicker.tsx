@@ -0,0 +1,117 @@
+import { useState } from "react";
+import {
+  CalibrationProfile,
+  loadProfileFile,
+  profileFileName,
+  serializeProfile,
+} from "./calibrationProfiles";
+import { downloadFile } from "./download";
+
+export function ProfilePicker({
+  profiles,
+  selected,
+  canSaveCurrent,
+  onSelect,
+  onSaveCurrent,
+  onRename,
+  onDelete,
+  onImport,
+}: {
+  profiles: CalibrationProfile[];
+  selected: CalibrationProfile | null;
+  canSaveCurrent: boolean;
+  onSelect: (id: string | null) => void;
+  onSaveCurrent: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (profile: CalibrationProfile) => void;
+}) {
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const importFile = (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    loadProfileFile(file).then(
+      (profile) => {
+        onImport(profile);
+        setError(null);
+      },
+      (error: Error) => setError(error.message)
+    );
+  };
+
+  return (
+    <div>
+      <label>
+        Profile:{" "}
+        <select
+          value={selected?.id ?? ""}
+          onChange={(e) => onSelect(e.target.value || null)}
+        >
+          <option value="">(unsaved)</option>
+          {profiles.map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      {selected && (
+        <>
+          <input
+            aria-label="Profile name"
+            value={selected.name}
+            onChange={(e) => onRename(selected.id, e.target.value)}
+          />
+          <button
+            onClick={() =>
+              downloadFile(
+                profileFileName(selected),
+                JSON.stringify(serializeProfile(selected), null, 2),
+                "application/json"
+              )
+            }
+          >
+            Export
+          </button>
+          <button
+            onClick={() => {
+              if (window.confirm(`Delete profile "${selected.name}"?`)) {
+                onDelete(selected.id);
+              }
+            }}
+          >
+            Delete
+          </button>
+        </>
+      )}
+      <div>
+        <input
+          placeholder="New profile name"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <button
+          disabled={!canSaveCurrent || newName.trim() === ""}
+          onClick={() => {
+            onSaveCurrent(newName.trim());
+            setNewName("");
+          }}
+        >
+          Save calibration as profile
+        </button>
+        <label>
+          Import:{" "}
+          <input
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => importFile(e.target.files?.[0])}
+          />
+        </label>
+      </div>
+      {error && <p className="text-red-500">{error}</p>}
+    </div>
+  );
+}
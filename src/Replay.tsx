@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Arkanoid, Playback } from "./Arkanoid";
+import { createGame, GameState } from "./engine";
+import { matchesRecording, Recording } from "./recording";
+
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+// how often the progress text is refreshed while the replay runs
+const PROGRESS_REFRESH_MS = 200;
+
+export function Replay({
+  recording,
+  onExit,
+}: {
+  recording: Recording;
+  onExit: () => void;
+}) {
+  const playback = useRef<Playback>({
+    paused: false,
+    speed: 1,
+    pendingSteps: 0,
+  });
+  const progress = useRef({
+    tick: 0,
+    desyncedAt: null as number | null,
+    gameOver: false,
+  });
+  const [game] = useState(() =>
+    createGame(recording.seed, recording.levels, recording.options)
+  );
+  const [, rerender] = useState({});
+
+  useEffect(() => {
+    const interval = setInterval(() => rerender({}), PROGRESS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const onTick = useCallback(
+    (state: GameState) => {
+      const tick = state.tick - 1;
+      if (
+        progress.current.desyncedAt === null &&
+        !matchesRecording(recording, tick, state)
+      ) {
+        progress.current.desyncedAt = tick;
+      }
+      progress.current.tick = state.tick;
+    },
+    [recording]
+  );
+  const onGameOver = useCallback(() => {
+    progress.current.gameOver = true;
+  }, []);
+
+  const { tick, desyncedAt, gameOver } = progress.current;
+  const finished = gameOver || tick >= recording.ticks.length;
+  const pitch = recording.ticks[Math.max(0, tick - 1)]?.pitch;
+
+  return (
+    <div className="mt-4 space-y-2 w-full">
+      <div className="flex flex-row">
+        <button
+          disabled={finished}
+          onClick={() => {
+            playback.current.paused = !playback.current.paused;
+            rerender({});
+          }}
+        >
+          {playback.current.paused ? "Resume" : "Pause"}
+        </button>
+        <button
+          disabled={finished || !playback.current.paused}
+          onClick={() => (playback.current.pendingSteps += 1)}
+        >
+          Step
+        </button>
+        <label>
+          Speed:{" "}
+          <select
+            value={playback.current.speed}
+            onChange={(e) => {
+              playback.current.speed = Number(e.target.value);
+              rerender({});
+            }}
+          >
+            {REPLAY_SPEEDS.map((speed) => (
+              <option key={speed} value={speed}>
+                {speed}x
+              </option>
+            ))}
+          </select>
+        </label>
+        <button onClick={onExit}>Exit replay</button>
+      </div>
+      <p>
+        Tick {tick} / {recording.ticks.length}
+        {finished && " (finished)"}
+        {pitch &&
+          ` - recorded pitch ${pitch.frequency.toFixed(1)} Hz, amplitude ${
+            pitch.amplitude
+          }, clarity ${pitch.clarity.toFixed(2)}`}
+      </p>
+      {desyncedAt !== null && (
+        <p className="text-red-500">
+          Replay diverged from the recording at tick {desyncedAt}.
+        </p>
+      )}
+      <Arkanoid
+        game={game}
+        replay={recording}
+        playback={playback}
+        onTick={onTick}
+        onGameOver={onGameOver}
+      />
+    </div>
+  );
+}
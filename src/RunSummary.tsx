@@ -0,0 +1,168 @@
+import { downloadFile } from "./download";
+import {
+  HighScoreEntry,
+  highScoresToCsv,
+  PersonalBests,
+  personalBests,
+} from "./highScores";
+import { RunStats } from "./runStats";
+
+// rows shown in the leaderboard, exports always contain everything
+const LEADERBOARD_SIZE = 10;
+
+type StatRow = {
+  label: string;
+  value: (stats: RunStats) => string;
+  // rows without these have no personal best
+  best?: (bests: PersonalBests) => string;
+  isBest?: (stats: RunStats, bests: PersonalBests) => boolean;
+};
+
+const formatJitter = (jitter: number | null) =>
+  jitter === null ? "-" : `${jitter.toFixed(2)} semitones`;
+
+const formatSeconds = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(
+    2,
+    "0"
+  )}`;
+
+const STAT_ROWS: StatRow[] = [
+  {
+    label: "Score",
+    value: (stats) => String(stats.score),
+    best: (bests) => String(bests.score),
+    isBest: (stats, bests) => stats.score > bests.score,
+  },
+  {
+    label: "Level reached",
+    value: (stats) => String(stats.levelReached),
+    best: (bests) => String(bests.levelReached),
+    isBest: (stats, bests) => stats.levelReached > bests.levelReached,
+  },
+  {
+    label: "Duration",
+    value: (stats) => formatSeconds(stats.durationSeconds),
+    best: (bests) => formatSeconds(bests.durationSeconds),
+    isBest: (stats, bests) => stats.durationSeconds > bests.durationSeconds,
+  },
+  {
+    label: "Bricks broken",
+    value: (stats) => String(stats.bricksBroken),
+    best: (bests) => String(bests.bricksBroken),
+    isBest: (stats, bests) => stats.bricksBroken > bests.bricksBroken,
+  },
+  { label: "Paddle hits", value: (stats) => String(stats.paddleHits) },
+  {
+    label: "Voice active",
+    value: (stats) => `${stats.voiceActiveSeconds.toFixed(1)} s`,
+  },
+  {
+    label: "Pitch jitter",
+    value: (stats) => formatJitter(stats.jitterSemitones),
+    best: (bests) => formatJitter(bests.jitterSemitones),
+    isBest: (stats, bests) =>
+      stats.jitterSemitones !== null &&
+      (bests.jitterSemitones === null ||
+        stats.jitterSemitones < bests.jitterSemitones),
+  },
+];
+
+export function RunSummary({
+  entry,
+  entries,
+}: {
+  entry: HighScoreEntry;
+  entries: HighScoreEntry[];
+}) {
+  const previous = personalBests(
+    entries.filter((other) => other.id !== entry.id),
+    entry.player
+  );
+  const rank = entries.findIndex((other) => other.id === entry.id) + 1;
+  const exportName = `voice-arkanoid-high-scores-${new Date()
+    .toISOString()
+    .slice(0, 10)}`;
+
+  return (
+    <div className="space-y-2">
+      <table>
+        <thead>
+          <tr>
+            <th />
+            <th>This run</th>
+            <th>Best of {entry.player}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {STAT_ROWS.map((row) => (
+            <tr key={row.label}>
+              <td>{row.label}</td>
+              <td>
+                {row.value(entry.stats)}
+                {previous && row.isBest?.(entry.stats, previous) && (
+                  <span className="text-green-600"> new best!</span>
+                )}
+              </td>
+              <td>{previous && row.best?.(previous)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p>
+        {rank > 0
+          ? `Rank ${rank} of ${entries.length}`
+          : "Not enough for the high-score table"}
+      </p>
+      <table>
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Player</th>
+            <th>Score</th>
+            <th>Level</th>
+            <th>Duration</th>
+            <th>Date</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.slice(0, LEADERBOARD_SIZE).map((other, idx) => (
+            <tr
+              key={other.id}
+              className={other.id === entry.id ? "font-bold" : undefined}
+            >
+              <td>{idx + 1}</td>
+              <td>{other.player}</td>
+              <td>{other.stats.score}</td>
+              <td>{other.stats.levelReached}</td>
+              <td>{formatSeconds(other.stats.durationSeconds)}</td>
+              <td>{new Date(other.playedAt).toLocaleDateString()}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        onClick={() =>
+          downloadFile(
+            `${exportName}.csv`,
+            highScoresToCsv(entries),
+            "text/csv"
+          )
+        }
+      >
+        Export CSV
+      </button>
+      <button
+        onClick={() =>
+          downloadFile(
+            `${exportName}.json`,
+            JSON.stringify(entries, null, 2),
+            "application/json"
+          )
+        }
+      >
+        Export JSON
+      </button>
+    </div>
+  );
+}
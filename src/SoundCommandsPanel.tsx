@@ -0,0 +1,173 @@
+import { useEffect, useRef, useState } from "react";
+import { VoiceControl } from "./voiceControl";
+import {
+  CalibrationResult,
+  isCalibrationResultComplete,
+} from "./calibrationTypes";
+import {
+  learnSoundEvent,
+  SOUND_COMMAND_BINDINGS,
+  SOUND_COMMAND_LABEL,
+  SOUND_EVENT_INSTRUCTION,
+  SOUND_EVENT_KINDS,
+  SOUND_EVENT_LABEL,
+  SoundCommandBinding,
+  SoundEventDetector,
+  SoundEventKind,
+  SoundEventSettings,
+  SoundSegmenter,
+  SoundTemplate,
+} from "./soundEvents";
+
+const RECORDING_TIME = 8000;
+// shorter blips while recording are treated as noise, not examples
+const MIN_EXAMPLE_MS = 20;
+
+export function SoundCommandsPanel({
+  voiceControl,
+  calibration,
+  settings,
+  onChange,
+}: {
+  voiceControl: VoiceControl;
+  calibration: CalibrationResult | null;
+  settings: SoundEventSettings;
+  onChange: (settings: SoundEventSettings) => void;
+}) {
+  const [recording, setRecording] = useState<SoundEventKind | null>(null);
+  const [examples, setExamples] = useState<SoundTemplate[]>([]);
+  const [lastHeard, setLastHeard] = useState<SoundEventKind | null>(null);
+  // latest props for the loop without restarting it on every change
+  const latest = useRef({ settings, onChange });
+  latest.current = { settings, onChange };
+  const threshold = isCalibrationResultComplete(calibration)
+    ? calibration.amplitudeThreshold
+    : null;
+
+  useEffect(() => {
+    if (threshold === null || calibration === null) {
+      return;
+    }
+    let animationFrameId: number;
+    const startedAt = performance.now();
+    const recorded: SoundTemplate[] = [];
+    const segmenter = new SoundSegmenter(threshold);
+    const detector = new SoundEventDetector(latest.current.settings, threshold);
+
+    const loop = () => {
+      const now = performance.now();
+      const pitch = voiceControl.getPitch(null, null);
+      const features = {
+        ...voiceControl.getSpectrumFeatures(),
+        frequency: pitch.frequency,
+        clarity: pitch.clarity,
+      };
+      if (recording === null) {
+        // testing - show what the detector makes of the sounds
+        const event = detector.process(features, now);
+        if (event) {
+          setLastHeard(event);
+        }
+      } else if (now - startedAt > RECORDING_TIME) {
+        latest.current.onChange(
+          learnSoundEvent(
+            latest.current.settings,
+            recording,
+            recorded,
+            calibration.minFreq
+          )
+        );
+        setRecording(null);
+        return;
+      } else {
+        const example = segmenter.process(features, now);
+        if (example && example.durationMs >= MIN_EXAMPLE_MS) {
+          recorded.push(example);
+          setExamples([...recorded]);
+        }
+      }
+      animationFrameId = requestAnimationFrame(loop);
+    };
+    animationFrameId = requestAnimationFrame(loop);
+
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [voiceControl, calibration, threshold, recording, settings.templates]);
+
+  const startRecording = (kind: SoundEventKind) => {
+    setExamples([]);
+    setLastHeard(null);
+    setRecording(kind);
+  };
+
+  return (
+    <div className="mt-4 space-y-2">
+      <label>
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+        />{" "}
+        Sound commands (hands-free launch, fire and pause while using voice)
+      </label>
+      {!settings.enabled && (
+        <p>Without them, a short note on its own launches and fires.</p>
+      )}
+      {threshold === null && (
+        <p>Calibrate voice and noise first to record sound commands.</p>
+      )}
+      <table>
+        <tbody>
+          {SOUND_EVENT_KINDS.map((kind) => (
+            <tr key={kind}>
+              <td>{SOUND_EVENT_LABEL[kind]}</td>
+              <td>
+                <select
+                  value={settings.bindings[kind]}
+                  onChange={(e) =>
+                    onChange({
+                      ...settings,
+                      bindings: {
+                        ...settings.bindings,
+                        [kind]: e.target.value as SoundCommandBinding,
+                      },
+                    })
+                  }
+                >
+                  {SOUND_COMMAND_BINDINGS.map((binding) => (
+                    <option key={binding} value={binding}>
+                      {SOUND_COMMAND_LABEL[binding]}
+                    </option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <button
+                  disabled={threshold === null || recording !== null}
+                  onClick={() => startRecording(kind)}
+                >
+                  {settings.templates[kind] ? "Re-record" : "Record"}
+                </button>
+              </td>
+              <td>{settings.templates[kind] ? "learned" : "default"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {recording ? (
+        <p>
+          {SOUND_EVENT_INSTRUCTION[recording]} Heard {examples.length} so far.
+        </p>
+      ) : (
+        threshold !== null && (
+          <p>
+            Make a sound to test it.
+            {lastHeard &&
+              ` Last heard: ${SOUND_EVENT_LABEL[lastHeard]} (${
+                SOUND_COMMAND_LABEL[settings.bindings[lastHeard]]
+              })`}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
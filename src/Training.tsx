@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState } from "react";
+import { PaddleInput } from "./paddleInput";
+import { CalibrationResult } from "./calibrationTypes";
+import { MIN_PITCH_CLARITY } from "./pitchDetection";
+import { frequencyForPosition, PitchMappingMode } from "./pitchMapping";
+import { formatHz, noteName } from "./spectrumView";
+import { canvasStyle, fitCanvas } from "./canvasScaling";
+import {
+  createTargets,
+  TARGET_TOLERANCE,
+  TrainingSession,
+  TrainingSummary,
+} from "./trainingSession";
+
+const VIEW_WIDTH = 480;
+const VIEW_HEIGHT = 120;
+const TRACK_Y = 60;
+const TRACK_HEIGHT = 30;
+const MARKER_WIDTH = 6;
+// sessions of the player listed under the exercise
+const HISTORY_SIZE = 10;
+
+function drawTraining(
+  ctx: CanvasRenderingContext2D,
+  session: TrainingSession,
+  position: number | null,
+  voiced: boolean,
+  label: string | null,
+  now: number
+) {
+  ctx.clearRect(0, 0, VIEW_WIDTH, VIEW_HEIGHT);
+  ctx.fillStyle = "#E5E7EB";
+  ctx.fillRect(0, TRACK_Y, VIEW_WIDTH, TRACK_HEIGHT);
+
+  const { target } = session;
+  if (target !== null) {
+    // the zone counting as on target, filling up while it is held
+    const zoneX = (target - TARGET_TOLERANCE) * VIEW_WIDTH;
+    const zoneWidth = 2 * TARGET_TOLERANCE * VIEW_WIDTH;
+    ctx.fillStyle = "rgba(0, 160, 0, 0.3)";
+    ctx.fillRect(zoneX, TRACK_Y, zoneWidth, TRACK_HEIGHT);
+    ctx.fillStyle = "rgba(0, 160, 0, 0.8)";
+    const held = session.holdProgress(now);
+    ctx.fillRect(
+      zoneX,
+      TRACK_Y + TRACK_HEIGHT * (1 - held),
+      zoneWidth,
+      TRACK_HEIGHT * held
+    );
+    ctx.font = "14px Arial";
+    ctx.fillStyle = "#000000";
+    ctx.textAlign = "center";
+    ctx.fillText(label ?? "Target", target * VIEW_WIDTH, TRACK_Y - 8);
+    ctx.textAlign = "start";
+  }
+
+  if (position !== null) {
+    // grey while no pitch is heard, the paddle would only be resting there
+    ctx.fillStyle = voiced ? "#0000FF" : "#9CA3AF";
+    ctx.fillRect(
+      position * VIEW_WIDTH - MARKER_WIDTH / 2,
+      TRACK_Y - 4,
+      MARKER_WIDTH,
+      TRACK_HEIGHT + 8
+    );
+  }
+
+  ctx.font = "12px Arial";
+  ctx.fillStyle = "#000000";
+  const current = Math.min(session.results.length + 1, session.size);
+  ctx.fillText(`Target ${current} of ${session.size}`, 8, 16);
+}
+
+const formatSeconds = (seconds: number | null) =>
+  seconds === null ? "-" : `${seconds.toFixed(2)} s`;
+
+const formatWobble = (wobble: number | null) =>
+  wobble === null ? "-" : `${(wobble * 100).toFixed(1)}%`;
+
+/**
+ * Target-note exercise on the same input as the game, so the paddle moves
+ * exactly as it would in play. Only positions reached while a pitch is
+ * heard count, resting the paddle on a target does not.
+ */
+export function Training({
+  input,
+  calibration,
+  mapping,
+  player,
+  sessions,
+  onFinished,
+}: {
+  input: PaddleInput;
+  calibration: CalibrationResult;
+  mapping: PitchMappingMode;
+  player: string;
+  sessions: TrainingSummary[];
+  onFinished: (summary: TrainingSummary) => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [session, setSession] = useState(
+    () => new TrainingSession(createTargets())
+  );
+  const [summary, setSummary] = useState<TrainingSummary | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current!;
+    const ctx = canvas.getContext("2d")!;
+    let animationFrameId: number;
+
+    const loop = (now: number) => {
+      const position = input.read();
+      // launch and fire mean nothing here, drop them as the game would
+      input.pollActions?.();
+      const pitch = input.lastPitch ?? null;
+      const noise = input.noise ?? null;
+      const voiced =
+        pitch !== null &&
+        noise !== null &&
+        pitch.clarity >= MIN_PITCH_CLARITY &&
+        noise.level > noise.threshold;
+      session.update(voiced ? position : null, now / 1000);
+      const { target } = session;
+      const frequency =
+        target === null
+          ? null
+          : frequencyForPosition(
+              mapping,
+              calibration.minFreq,
+              calibration.maxFreq,
+              target
+            );
+      fitCanvas(canvas, ctx, VIEW_WIDTH, VIEW_HEIGHT);
+      drawTraining(
+        ctx,
+        session,
+        position,
+        voiced,
+        frequency === null
+          ? null
+          : `${noteName(frequency)} (${formatHz(frequency)} Hz)`,
+        now / 1000
+      );
+      if (session.finished) {
+        const result = session.summary(player, mapping, Date.now());
+        setSummary(result);
+        onFinished(result);
+        return;
+      }
+      animationFrameId = requestAnimationFrame(loop);
+    };
+    animationFrameId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(animationFrameId);
+  }, [input, session, calibration, mapping, player, onFinished]);
+
+  const history = sessions
+    .filter((other) => other.player === player)
+    .slice(-HISTORY_SIZE);
+  const best = Math.max(0, ...history.map((other) => other.score));
+
+  return (
+    <div className="mt-4 space-y-2 w-full">
+      <p>
+        Whistle to move the marker into the green zone and hold it there until
+        it fills up.
+      </p>
+      <canvas
+        ref={canvasRef}
+        style={canvasStyle(VIEW_WIDTH, VIEW_HEIGHT)}
+        className="border border-gray-300"
+      />
+      {summary && (
+        <>
+          <div className="text-xl font-bold">
+            Score: {summary.score} - {summary.targetsHit} of {summary.targets}{" "}
+            targets held
+          </div>
+          <table>
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Reached in</th>
+                <th>Wobble</th>
+                <th>Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {session.results.map((result, idx) => (
+                <tr key={idx}>
+                  <td>{idx + 1}</td>
+                  <td>{formatSeconds(result.reactionSeconds)}</td>
+                  <td>{formatWobble(result.wobble)}</td>
+                  <td>{result.score}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button
+            onClick={() => {
+              setSummary(null);
+              setSession(new TrainingSession(createTargets()));
+            }}
+          >
+            Train again
+          </button>
+        </>
+      )}
+      {history.length > 0 && (
+        <>
+          <p>
+            Progress of {player}, best score {best}
+          </p>
+          <table>
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Score</th>
+                <th>Held</th>
+                <th>Reached in</th>
+                <th>Wobble</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((other) => (
+                <tr
+                  key={other.id}
+                  className={other.id === summary?.id ? "font-bold" : undefined}
+                >
+                  <td>{new Date(other.playedAt).toLocaleString()}</td>
+                  <td>{other.score}</td>
+                  <td>
+                    {other.targetsHit}/{other.targets}
+                  </td>
+                  <td>{formatSeconds(other.meanReactionSeconds)}</td>
+                  <td>{formatWobble(other.meanWobble)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import {
+  AnalysisMessage,
+  ANALYSIS_HOP_SIZE,
+  ANALYSIS_PROCESSOR_NAME,
+  ANALYSIS_WINDOW_SIZE,
+  FrameAnalyser,
+} from "./audioAnalysis";
+
+// AudioWorkletGlobalScope, not covered by the DOM typings
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+declare function registerProcessor(
+  name: string,
+  processor: new () => AudioWorkletProcessor
+): void;
+
+/**
+ * Runs on the audio thread and posts an `AnalysisFrame` every
+ * `ANALYSIS_HOP_SIZE` samples, however busy the page is.
+ */
+class AnalysisProcessor extends AudioWorkletProcessor {
+  private samples = new Float32Array(ANALYSIS_WINDOW_SIZE);
+  private window = new Float32Array(ANALYSIS_WINDOW_SIZE);
+  private analyser = new FrameAnalyser(ANALYSIS_WINDOW_SIZE);
+  private writeIndex = 0;
+  private sinceFrame = 0;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<AnalysisMessage>) => {
+      this.analyser.band = event.data.band;
+    };
+  }
+
+  public process(inputs: Float32Array[][]) {
+    const channel = inputs[0]?.[0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        this.samples[this.writeIndex] = channel[i];
+        this.writeIndex = (this.writeIndex + 1) % ANALYSIS_WINDOW_SIZE;
+        this.sinceFrame++;
+        if (this.sinceFrame === ANALYSIS_HOP_SIZE) {
+          this.sinceFrame = 0;
+          this.postFrame();
+        }
+      }
+    }
+    // keep running while the input is silent or disconnected
+    return true;
+  }
+
+  private postFrame() {
+    // unroll the ring buffer, oldest sample first
+    const tail = this.samples.subarray(this.writeIndex);
+    this.window.set(tail);
+    this.window.set(this.samples.subarray(0, this.writeIndex), tail.length);
+    const frame = this.analyser.analyse(this.window, sampleRate, currentTime);
+    this.port.postMessage(frame, [frame.spectrum.buffer]);
+  }
+}
+
+registerProcessor(ANALYSIS_PROCESSOR_NAME, AnalysisProcessor);
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { ANALYSIS_WINDOW_SIZE, FrameAnalyser } from "./audioAnalysis";
+import { bandSearchOptions, detectPitch } from "./pitchDetection";
+
+const SAMPLE_RATE = 48000;
+
+const sine = (frequency: number, amplitude = 0.5) =>
+  Float32Array.from(
+    { length: ANALYSIS_WINDOW_SIZE },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE)
+  );
+
+/**
+ * What an AnalyserNode with its default settings reports for consecutive
+ * windows, computed the slow way from the Web Audio spec: Blackman window,
+ * DFT, smoothing over calls, then dB on the byte scale.
+ */
+function analyserBytes(windows: Float32Array[]) {
+  const size = ANALYSIS_WINDOW_SIZE;
+  let smoothed = new Float64Array(size / 2);
+  for (const samples of windows) {
+    const windowed = samples.map((sample, n) => {
+      const phase = (2 * Math.PI * n) / size;
+      return (
+        sample * (0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase))
+      );
+    });
+    smoothed = smoothed.map((previous, k) => {
+      let real = 0;
+      let imag = 0;
+      for (let n = 0; n < size; n++) {
+        const angle = (-2 * Math.PI * k * n) / size;
+        real += windowed[n] * Math.cos(angle);
+        imag += windowed[n] * Math.sin(angle);
+      }
+      return 0.8 * previous + 0.2 * (Math.hypot(real, imag) / size);
+    });
+  }
+  // not floored to whole bytes, as the worklet's spectrum is not either
+  return smoothed.map((magnitude) =>
+    Math.min(255, Math.max(0, ((20 * Math.log10(magnitude) + 100) * 255) / 70))
+  );
+}
+
+const loudestBin = (spectrum: ArrayLike<number>) =>
+  Array.from(spectrum).reduce(
+    (best, value, i) => (value > spectrum[best] ? i : best),
+    0
+  );
+
+describe("FrameAnalyser", () => {
+  it("gives the polled analyser's spectrum and pitch for a sine", () => {
+    const analyser = new FrameAnalyser(ANALYSIS_WINDOW_SIZE);
+    // a tone starting, held and then stopping, smoothed across the frames
+    const windows = [sine(1000), sine(1000), sine(1000), sine(0)];
+    windows.forEach((samples, i) => {
+      const frame = analyser.analyse(samples, SAMPLE_RATE, i);
+      const expected = analyserBytes(windows.slice(0, i + 1));
+      const peak = loudestBin(expected);
+      expect(loudestBin(frame.spectrum)).toBe(peak);
+      expect(frame.spectrum[peak]).toBeCloseTo(expected[peak], 3);
+      for (const bin of [peak - 10, peak - 2, peak + 2, peak + 10]) {
+        expect(frame.spectrum[bin]).toBeCloseTo(expected[bin], 1);
+      }
+      expect(frame.frequency).toBe(detectPitch(samples, SAMPLE_RATE).frequency);
+    });
+  });
+
+  it("searches only the whole range until it is given a band", () => {
+    const frame = new FrameAnalyser(ANALYSIS_WINDOW_SIZE).analyse(
+      sine(1000),
+      SAMPLE_RATE,
+      0
+    );
+    expect(frame.bandPitch).toBeNull();
+    expect(frame.frequency).toBeCloseTo(1000, 0);
+  });
+
+  it("searches around the band as the polled path does", () => {
+    const analyser = new FrameAnalyser(ANALYSIS_WINDOW_SIZE);
+    const band = { minFreq: 1500, maxFreq: 3000 };
+    analyser.band = band;
+    const samples = sine(1000);
+    const frame = analyser.analyse(samples, SAMPLE_RATE, 0);
+    expect(frame.bandPitch).toEqual({
+      ...detectPitch(samples, SAMPLE_RATE, bandSearchOptions(band)),
+      band,
+    });
+    // the whole-range pitch stays for sound commands
+    expect(frame.frequency).toBeCloseTo(1000, 0);
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  bandSearchOptions,
+  detectPitch,
+  FrequencyBand,
+  PitchEstimate,
+} from "./pitchDetection";
+
+/** Samples per analysis window, the same as the analyser's fftSize. */
+export const ANALYSIS_WINDOW_SIZE = 2048;
+/** Samples between frames, about 94 frames a second at 48 kHz. */
+export const ANALYSIS_HOP_SIZE = 512;
+export const ANALYSIS_PROCESSOR_NAME = "voice-arkanoid-analysis";
+
+// the AnalyserNode defaults, so calibrated levels keep their meaning
+const MIN_DECIBELS = -100;
+const MAX_DECIBELS = -30;
+const SMOOTHING_TIME_CONSTANT = 0.8;
+
+export type AnalysisFrame = {
+  // AudioContext time in seconds when the window was complete
+  time: number;
+  // over the detector's whole range
+  frequency: number;
+  clarity: number;
+  // searched around the band last sent in an `AnalysisMessage`
+  bandPitch: (PitchEstimate & { band: FrequencyBand }) | null;
+  // the analyser's 0..255 byte scale, but not rounded to whole steps
+  spectrum: Float32Array;
+};
+
+/** Sent to the worklet, the band `getPitch` is asked about. */
+export type AnalysisMessage = { band: FrequencyBand | null };
+
+export type SpectrumFeatures = {
+  level: number;
+  centroid: number;
+  flatness: number;
+};
+
+/**
+ * Spectrum and pitch of one window of raw samples. The spectrum is smoothed
+ * over frames like the AnalyserNode's, otherwise it is pure so the worklet
+ * and tests can share it.
+ */
+export class FrameAnalyser {
+  private windowFunction: Float32Array;
+  private twiddles: Twiddles;
+  private real: Float32Array;
+  private imag: Float32Array;
+  // linear magnitudes, smoothed before the dB conversion as the analyser does
+  private magnitudes: Float32Array;
+  public band: FrequencyBand | null = null;
+
+  constructor(size: number) {
+    // Blackman window, as used by the AnalyserNode
+    this.windowFunction = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      const phase = (2 * Math.PI * i) / size;
+      this.windowFunction[i] =
+        0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+    }
+    this.twiddles = twiddleTable(size);
+    this.real = new Float32Array(size);
+    this.imag = new Float32Array(size);
+    this.magnitudes = new Float32Array(size / 2);
+  }
+
+  public analyse(
+    samples: Float32Array,
+    sampleRate: number,
+    time: number
+  ): AnalysisFrame {
+    const size = this.real.length;
+    for (let i = 0; i < size; i++) {
+      this.real[i] = samples[i] * this.windowFunction[i];
+    }
+    this.imag.fill(0);
+    fft(this.real, this.imag, this.twiddles);
+
+    const spectrum = new Float32Array(size / 2);
+    const scale = 255 / (MAX_DECIBELS - MIN_DECIBELS);
+    for (let i = 0; i < spectrum.length; i++) {
+      const magnitude =
+        SMOOTHING_TIME_CONSTANT * this.magnitudes[i] +
+        (1 - SMOOTHING_TIME_CONSTANT) *
+          (Math.hypot(this.real[i], this.imag[i]) / size);
+      this.magnitudes[i] = magnitude;
+      const decibels = 20 * Math.log10(magnitude);
+      spectrum[i] = Math.min(
+        255,
+        Math.max(0, (decibels - MIN_DECIBELS) * scale)
+      );
+    }
+    const { frequency, clarity } = detectPitch(samples, sampleRate);
+    const { band } = this;
+    const bandPitch = band && {
+      ...detectPitch(samples, sampleRate, bandSearchOptions(band)),
+      band,
+    };
+    return { time, frequency, clarity, bandPitch, spectrum };
+  }
+}
+
+type Twiddles = { cos: Float64Array; sin: Float64Array };
+
+/** The FFT's rotations for every k below `size / 2`. */
+function twiddleTable(size: number): Twiddles {
+  const cos = new Float64Array(size / 2);
+  const sin = new Float64Array(size / 2);
+  for (let k = 0; k < size / 2; k++) {
+    cos[k] = Math.cos((-2 * Math.PI * k) / size);
+    sin[k] = Math.sin((-2 * Math.PI * k) / size);
+  }
+  return { cos, sin };
+}
+
+/**
+ * In-place radix-2 FFT, the length must be a power of two and match the
+ * twiddle table.
+ */
+function fft(real: Float32Array, imag: Float32Array, twiddles: Twiddles) {
+  const size = real.length;
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+  for (let length = 2; length <= size; length <<= 1) {
+    // the table is for the whole size, shorter stages take every stride-th
+    const stride = size / length;
+    for (let start = 0; start < size; start += length) {
+      for (let k = 0; k < length / 2; k++) {
+        const cos = twiddles.cos[k * stride];
+        const sin = twiddles.sin[k * stride];
+        const even = start + k;
+        const odd = even + length / 2;
+        const oddReal = real[odd] * cos - imag[odd] * sin;
+        const oddImag = real[odd] * sin + imag[odd] * cos;
+        real[odd] = real[even] - oddReal;
+        imag[odd] = imag[even] - oddImag;
+        real[even] += oddReal;
+        imag[even] += oddImag;
+      }
+    }
+  }
+}
+
+/**
+ * Loudest bin plus the spectral centroid and flatness, used to tell claps
+ * and bursts from voiced sounds.
+ */
+export function spectrumFeatures(
+  spectrum: ArrayLike<number>,
+  frequencyPerDataPoint: number
+): SpectrumFeatures {
+  let level = 0;
+  let weightedSum = 0;
+  let magnitudeSum = 0;
+  let logSum = 0;
+  // bin 0 is DC, not part of any sound
+  for (let i = 1; i < spectrum.length; i++) {
+    const value = spectrum[i];
+    level = Math.max(level, value);
+    // values are dB scaled, the analyser's offset cancels out in the ratios
+    const logMagnitude =
+      ((value / 255) * (MAX_DECIBELS - MIN_DECIBELS) * Math.LN10) / 20;
+    const magnitude = Math.exp(logMagnitude);
+    weightedSum += magnitude * i * frequencyPerDataPoint;
+    magnitudeSum += magnitude;
+    logSum += logMagnitude;
+  }
+  const bins = spectrum.length - 1;
+  return {
+    level,
+    centroid: weightedSum / magnitudeSum,
+    flatness: Math.exp(logSum / bins) / (magnitudeSum / bins),
+  };
+}
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  loadProfileStore,
+  parseProfile,
+  PROFILE_FORMAT_VERSION,
+  ProfileFormatError,
+} from "./calibrationProfiles";
+
+const result = {
+  minFreq: 800,
+  maxFreq: 1600,
+  voiceAmplitude: 180,
+  noiseAmplitude: 40,
+  amplitudeThreshold: 110,
+};
+
+const serialized = (changes: Record<string, unknown> = {}) => ({
+  version: PROFILE_FORMAT_VERSION,
+  name: "Test",
+  result,
+  state: { freqs: [800, 1600], voiceAmplitudes: [180], noiseAmplitudes: [40] },
+  updatedAt: 1,
+  ...changes,
+});
+
+describe("parseProfile", () => {
+  it("keeps only the calibrated values", () => {
+    const profile = parseProfile(
+      serialized({ result: { ...result, extra: "ignored" } }),
+      "id"
+    );
+    expect(profile.id).toBe("id");
+    expect(profile.result).toEqual(result);
+  });
+
+  it.each([
+    ["numeric strings", { ...result, minFreq: "800" }],
+    ["infinite values", { ...result, maxFreq: Infinity }],
+    ["an empty range", { ...result, minFreq: 1600 }],
+    ["a reversed range", { ...result, minFreq: 2000 }],
+  ])("rejects calibrations with %s", (_, broken) => {
+    expect(() => parseProfile(serialized({ result: broken }))).toThrow(
+      ProfileFormatError
+    );
+  });
+});
+
+describe("loadProfileStore", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("drops stored profiles without an id or with a broken calibration", () => {
+    const stored = {
+      selectedId: "b",
+      profiles: [
+        { id: "a", ...serialized() },
+        { ...serialized({ name: "No id" }) },
+        { id: "b", ...serialized({ result: { ...result, maxFreq: 400 } }) },
+      ],
+    };
+    vi.stubGlobal("localStorage", { getItem: () => JSON.stringify(stored) });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const store = loadProfileStore();
+    expect(store.profiles.map((profile) => profile.id)).toEqual(["a"]);
+    // the selected profile was dropped
+    expect(store.selectedId).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+});
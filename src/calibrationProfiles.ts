@@ -0,0 +1,272 @@
+import {
+  CalibrationResult,
+  CalibrationState,
+  isCalibrationResultComplete,
+} from "./calibrationTypes";
+import { InputFilterSettings, parseInputFilterSettings } from "./inputFilter";
+import {
+  DEFAULT_PITCH_MAPPING,
+  isPitchMappingMode,
+  PitchMappingMode,
+} from "./pitchMapping";
+import { parseSoundEventSettings, SoundEventSettings } from "./soundEvents";
+
+export type CalibrationProfile = {
+  id: string;
+  name: string;
+  result: CalibrationResult;
+  mapping: PitchMappingMode;
+  state: CalibrationState;
+  filterSettings: InputFilterSettings;
+  soundEvents: SoundEventSettings;
+  updatedAt: number;
+};
+
+export type ProfileStore = {
+  profiles: CalibrationProfile[];
+  selectedId: string | null;
+};
+
+// bump when the serialized shape changes, other versions are rejected on load
+export const PROFILE_FORMAT_VERSION = 1;
+const STORAGE_KEY = "voice-arkanoid.calibrationProfiles";
+
+type SerializedProfile = {
+  version: number;
+  name: string;
+  result: CalibrationResult;
+  mapping: PitchMappingMode;
+  state: CalibrationState;
+  filterSettings: InputFilterSettings;
+  soundEvents: SoundEventSettings;
+  updatedAt: number;
+};
+
+export class ProfileFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileFormatError";
+  }
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === "number" && Number.isFinite(item))
+  );
+}
+
+function newProfileId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export function serializeProfile(
+  profile: CalibrationProfile
+): SerializedProfile {
+  return {
+    version: PROFILE_FORMAT_VERSION,
+    name: profile.name,
+    result: profile.result,
+    mapping: profile.mapping,
+    state: profile.state,
+    filterSettings: profile.filterSettings,
+    soundEvents: profile.soundEvents,
+    updatedAt: profile.updatedAt,
+  };
+}
+
+/**
+ * Validates a serialized profile. Partial or corrupt calibrations are
+ * rejected so a broken profile can never be used to start a game.
+ */
+export function parseProfile(
+  data: unknown,
+  id = newProfileId()
+): CalibrationProfile {
+  if (typeof data !== "object" || data === null) {
+    throw new ProfileFormatError("Profile must be a JSON object");
+  }
+  const {
+    version,
+    name,
+    result,
+    mapping,
+    state,
+    filterSettings,
+    soundEvents,
+    updatedAt,
+  } = data as Record<string, unknown>;
+  if (version !== PROFILE_FORMAT_VERSION) {
+    throw new ProfileFormatError(
+      `Unsupported profile version ${String(version)}`
+    );
+  }
+  if (typeof name !== "string") {
+    throw new ProfileFormatError("Profile has no name");
+  }
+  if (
+    typeof result !== "object" ||
+    result === null ||
+    !isCalibrationResultComplete(result as CalibrationResult)
+  ) {
+    throw new ProfileFormatError(
+      `Profile "${name}" has incomplete calibration`
+    );
+  }
+  const { freqs, voiceAmplitudes, noiseAmplitudes } = (state ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (
+    !isNumberArray(freqs) ||
+    !isNumberArray(voiceAmplitudes) ||
+    !isNumberArray(noiseAmplitudes)
+  ) {
+    throw new ProfileFormatError(`Profile "${name}" has corrupt samples`);
+  }
+  const {
+    minFreq,
+    maxFreq,
+    voiceAmplitude,
+    noiseAmplitude,
+    amplitudeThreshold,
+  } = result as CalibrationResult;
+  return {
+    id,
+    name: name.trim() || "Unnamed",
+    // only the known fields, nothing else stored alongside is carried over
+    result: {
+      minFreq,
+      maxFreq,
+      voiceAmplitude,
+      noiseAmplitude,
+      amplitudeThreshold,
+    },
+    mapping: isPitchMappingMode(mapping) ? mapping : DEFAULT_PITCH_MAPPING,
+    state: { freqs, voiceAmplitudes, noiseAmplitudes },
+    // older profiles have no filter settings, defaults are filled in
+    filterSettings: parseInputFilterSettings(filterSettings),
+    soundEvents: parseSoundEventSettings(soundEvents),
+    updatedAt: typeof updatedAt === "number" ? updatedAt : Date.now(),
+  };
+}
+
+export function loadProfileStore(): ProfileStore {
+  const empty: ProfileStore = { profiles: [], selectedId: null };
+  let stored: { selectedId?: unknown; profiles?: unknown };
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") ?? {};
+  } catch (error) {
+    console.warn("Ignoring unreadable calibration profiles", error);
+    return empty;
+  }
+  if (!Array.isArray(stored.profiles)) {
+    return empty;
+  }
+  const profiles: CalibrationProfile[] = [];
+  for (const item of stored.profiles) {
+    // saved profiles always have one, selection and player 2 refer to it
+    if (typeof item?.id !== "string") {
+      console.warn("Dropping calibration profile without an id", item);
+      continue;
+    }
+    try {
+      profiles.push(parseProfile(item, item.id));
+    } catch (error) {
+      console.warn("Dropping calibration profile", error);
+    }
+  }
+  const selectedId = profiles.some((p) => p.id === stored.selectedId)
+    ? (stored.selectedId as string)
+    : null;
+  return { profiles, selectedId };
+}
+
+export function saveProfileStore(store: ProfileStore) {
+  localStorage.setItem(
+    STORAGE_KEY,
+    JSON.stringify({
+      selectedId: store.selectedId,
+      profiles: store.profiles.map((profile) => ({
+        id: profile.id,
+        ...serializeProfile(profile),
+      })),
+    })
+  );
+}
+
+export function selectedProfile(store: ProfileStore) {
+  return store.profiles.find((p) => p.id === store.selectedId) ?? null;
+}
+
+export function addProfile(
+  store: ProfileStore,
+  name: string,
+  result: CalibrationResult,
+  mapping: PitchMappingMode,
+  state: CalibrationState,
+  filterSettings: InputFilterSettings,
+  soundEvents: SoundEventSettings
+): ProfileStore {
+  const profile: CalibrationProfile = {
+    id: newProfileId(),
+    name,
+    result,
+    mapping,
+    state: structuredClone(state),
+    filterSettings,
+    soundEvents,
+    updatedAt: Date.now(),
+  };
+  return { profiles: [...store.profiles, profile], selectedId: profile.id };
+}
+
+export function importProfile(
+  store: ProfileStore,
+  profile: CalibrationProfile
+): ProfileStore {
+  return { profiles: [...store.profiles, profile], selectedId: profile.id };
+}
+
+export function updateProfile(
+  store: ProfileStore,
+  id: string,
+  changes: Partial<Omit<CalibrationProfile, "id">>
+): ProfileStore {
+  return {
+    ...store,
+    profiles: store.profiles.map((profile) =>
+      profile.id === id
+        ? { ...profile, ...changes, updatedAt: Date.now() }
+        : profile
+    ),
+  };
+}
+
+export function deleteProfile(store: ProfileStore, id: string): ProfileStore {
+  return {
+    profiles: store.profiles.filter((profile) => profile.id !== id),
+    selectedId: store.selectedId === id ? null : store.selectedId,
+  };
+}
+
+export function selectProfile(
+  store: ProfileStore,
+  id: string | null
+): ProfileStore {
+  return { ...store, selectedId: id };
+}
+
+export function profileFileName(profile: CalibrationProfile) {
+  return `${profile.name.replace(/[^\w-]+/g, "_")}.calibration.json`;
+}
+
+export async function loadProfileFile(file: File) {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new ProfileFormatError(`${file.name} is not valid JSON`);
+  }
+  return parseProfile(data);
+}
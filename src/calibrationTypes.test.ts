@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  assessCalibration,
+  CalibrationState,
+  evaluateState,
+} from "./calibrationTypes";
+
+/** Whistles swept `sweeps` times between `low` and `high` Hz, as heard. */
+function sweeps(count: number, low: (sweep: number) => number, high = 1600) {
+  return Array.from({ length: count * 40 }, (_, i) => {
+    const sweep = Math.floor(i / 40);
+    const phase = (i % 40) / 40;
+    // up and back down again
+    const position = 1 - Math.abs(2 * phase - 1);
+    return low(sweep) * (high / low(sweep)) ** position;
+  });
+}
+
+const state = (changes: Partial<CalibrationState> = {}): CalibrationState => ({
+  freqs: sweeps(4, () => 800),
+  voiceAmplitudes: Array(60).fill(200),
+  noiseAmplitudes: Array(60).fill(40),
+  ...changes,
+});
+
+describe("evaluateState", () => {
+  it("leaves the samples in the order they were heard", () => {
+    const freqs = [1200, 800, 1600];
+    evaluateState(state({ freqs }));
+    expect(freqs).toEqual([1200, 800, 1600]);
+  });
+
+  it("finds no drift when every sweep covers the same range", () => {
+    const { diagnostics } = evaluateState(state());
+    // p10 to p90 of a one-octave sweep
+    expect(diagnostics.rangeSemitones).toBeCloseTo(9.6);
+    expect(diagnostics.rangeDriftSemitones).toBeCloseTo(0);
+  });
+});
+
+describe("assessCalibration", () => {
+  it("scores steady, loud, wide calibrations as good", () => {
+    const quality = assessCalibration(evaluateState(state()));
+    expect(quality.problems).toEqual([]);
+    expect(quality.score).toBeGreaterThan(90);
+  });
+
+  it("flags a range whose low end wanders from sweep to sweep", () => {
+    // an octave lower on each sweep
+    const freqs = sweeps(4, (sweep) => 800 / 2 ** sweep, 3200);
+    const { diagnostics } = evaluateState(state({ freqs }));
+    expect(diagnostics.rangeDriftSemitones).toBeGreaterThan(2);
+
+    const quality = assessCalibration(evaluateState(state({ freqs })));
+    expect(quality.problems).toEqual([
+      expect.objectContaining({ step: "frequencyRange" }),
+    ]);
+    expect(quality.problems[0].message).toContain("semitones");
+    expect(quality.score).toBeLessThanOrEqual(50);
+  });
+
+  it("rounds the noise floor in its message", () => {
+    const noiseAmplitudes = Array.from({ length: 60 }, (_, i) => 40 + i / 3);
+    const quality = assessCalibration(
+      evaluateState(
+        state({ voiceAmplitudes: Array(60).fill(41), noiseAmplitudes })
+      )
+    );
+    const problem = quality.problems.find(
+      (problem) => problem.step === "noiseAmplitude"
+    );
+    expect(problem?.message).toContain("background noise (58)");
+  });
+});
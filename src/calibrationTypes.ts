@@ -11,20 +11,26 @@ export type CalibrationResult = {
   amplitudeThreshold: number;
 };
 
+const isPositive = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+/** Whether every value is a positive number and the range is not empty. */
 export function isCalibrationResultComplete(
   result: CalibrationResult | null
 ): result is CalibrationResult {
   return (
     result !== null &&
-    result.minFreq > 0 &&
-    result.maxFreq > 0 &&
-    result.voiceAmplitude > 0 &&
-    result.noiseAmplitude > 0 &&
-    result.amplitudeThreshold > 0
+    isPositive(result.minFreq) &&
+    isPositive(result.maxFreq) &&
+    result.minFreq < result.maxFreq &&
+    isPositive(result.voiceAmplitude) &&
+    isPositive(result.noiseAmplitude) &&
+    isPositive(result.amplitudeThreshold)
   );
 }
 
 export type CalibrationState = {
+  // in the order they were heard
   freqs: number[];
   voiceAmplitudes: number[];
   noiseAmplitudes: number[];
@@ -58,31 +64,182 @@ export function isCalibrationStepComplete(
   return state[calibrationStateArrayForStep(step)].length > 0;
 }
 
-export function evaluateState(state: CalibrationState): CalibrationResult {
-  state.freqs.sort((a, b) => a - b);
-  state.voiceAmplitudes.sort((a, b) => a - b);
-  state.noiseAmplitudes.sort((a, b) => a - b);
-  const voiceAmplitude =
-    state.voiceAmplitudes.length === 0
-      ? 0
-      : state.voiceAmplitudes[Math.floor(state.voiceAmplitudes.length / 2)];
-  const noiseAmplitude =
-    state.noiseAmplitudes.length === 0
-      ? 0
-      : state.noiseAmplitudes[Math.floor(state.noiseAmplitudes.length / 2)];
-  return {
+export type CalibrationDiagnostics = {
+  voiceSamples: number;
+  noiseSamples: number;
+  freqSamples: number;
+  // p90 - p10 of the amplitude samples
+  voiceSpread: number;
+  noiseSpread: number;
+  // p90 of the noise amplitude, the level a threshold has to clear
+  noiseFloor: number;
+  // approximate, from the analyser's default 70 dB byte range
+  snrDb: number;
+  rangeSemitones: number;
+  // how far the range ends wander over the step, the larger standard
+  // deviation of the p10 or p90 of each part, in semitones
+  rangeDriftSemitones: number;
+};
+
+export type CalibrationEvaluation = {
+  result: CalibrationResult;
+  diagnostics: CalibrationDiagnostics;
+};
+
+// byte spectrum values span the analyser's default -100..-30 dB range
+const DB_PER_AMPLITUDE_UNIT = 70 / 255;
+
+// the range step is split into this many parts to see whether its ends hold
+const RANGE_PARTS = 4;
+const MIN_RANGE_PART_SAMPLES = 5;
+
+function percentile(sorted: number[], p: number) {
+  return sorted.length === 0
+    ? 0
+    : sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+const sorted = (values: number[]) => [...values].sort((a, b) => a - b);
+
+function standardDeviation(values: number[]) {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(
+    values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+  );
+}
+
+function rangeDrift(freqs: number[]) {
+  const partSize = Math.floor(freqs.length / RANGE_PARTS);
+  if (partSize < MIN_RANGE_PART_SAMPLES) {
+    return 0;
+  }
+  const parts = Array.from({ length: RANGE_PARTS }, (_, i) =>
+    sorted(freqs.slice(i * partSize, (i + 1) * partSize))
+  );
+  const semitones = (frequency: number) => 12 * Math.log2(frequency);
+  return Math.max(
+    standardDeviation(parts.map((part) => semitones(percentile(part, 0.1)))),
+    standardDeviation(parts.map((part) => semitones(percentile(part, 0.9))))
+  );
+}
+
+export function evaluateState(state: CalibrationState): CalibrationEvaluation {
+  const freqs = sorted(state.freqs);
+  const voiceAmplitudes = sorted(state.voiceAmplitudes);
+  const noiseAmplitudes = sorted(state.noiseAmplitudes);
+  const voiceAmplitude = percentile(voiceAmplitudes, 0.5);
+  const noiseAmplitude = percentile(noiseAmplitudes, 0.5);
+  const result = {
     // p10 and p90
-    minFreq:
-      state.freqs.length === 0
-        ? 0
-        : state.freqs[Math.floor(state.freqs.length * 0.1)],
-    maxFreq:
-      state.freqs.length === 0
-        ? 0
-        : state.freqs[Math.floor(state.freqs.length * 0.9)],
+    minFreq: percentile(freqs, 0.1),
+    maxFreq: percentile(freqs, 0.9),
     // average of medians
     amplitudeThreshold: (voiceAmplitude + noiseAmplitude) / 2,
     voiceAmplitude,
     noiseAmplitude,
   };
+  return {
+    result,
+    diagnostics: {
+      voiceSamples: voiceAmplitudes.length,
+      noiseSamples: noiseAmplitudes.length,
+      freqSamples: freqs.length,
+      voiceSpread:
+        percentile(voiceAmplitudes, 0.9) - percentile(voiceAmplitudes, 0.1),
+      noiseSpread:
+        percentile(noiseAmplitudes, 0.9) - percentile(noiseAmplitudes, 0.1),
+      noiseFloor: percentile(noiseAmplitudes, 0.9),
+      snrDb: (voiceAmplitude - noiseAmplitude) * DB_PER_AMPLITUDE_UNIT,
+      rangeSemitones:
+        result.minFreq > 0 && result.maxFreq > 0
+          ? 12 * Math.log2(result.maxFreq / result.minFreq)
+          : 0,
+      rangeDriftSemitones: rangeDrift(state.freqs),
+    },
+  };
+}
+
+export type CalibrationProblem = {
+  step: CalibrationStep;
+  message: string;
+};
+
+export type CalibrationQuality = {
+  // 0..100
+  score: number;
+  problems: CalibrationProblem[];
+};
+
+const GOOD_SNR_DB = 20;
+const MIN_SNR_DB = 8;
+const GOOD_RANGE_SEMITONES = 12;
+const MIN_RANGE_SEMITONES = 5;
+const GOOD_FREQ_SAMPLES = 120;
+const MIN_FREQ_SAMPLES = 30;
+const MAX_RANGE_DRIFT_SEMITONES = 2;
+
+/** Scores a calibration and explains what makes it hard to play with. */
+export function assessCalibration({
+  result,
+  diagnostics,
+}: CalibrationEvaluation): CalibrationQuality {
+  const problems: CalibrationProblem[] = [];
+  if (result.amplitudeThreshold <= diagnostics.noiseFloor) {
+    problems.push({
+      step: "noiseAmplitude",
+      message: `The threshold (${result.amplitudeThreshold.toFixed(
+        0
+      )}) is below the loudest background noise (${diagnostics.noiseFloor.toFixed(
+        0
+      )}). Noise will move the paddle - redo the noise step in a quiet moment or whistle louder.`,
+    });
+  }
+  if (diagnostics.snrDb < MIN_SNR_DB) {
+    problems.push({
+      step: "voiceAmplitude",
+      message: `Your whistle is only about ${diagnostics.snrDb.toFixed(
+        0
+      )} dB above the background. Whistle louder or move closer to the microphone.`,
+    });
+  }
+  if (diagnostics.freqSamples < MIN_FREQ_SAMPLES) {
+    problems.push({
+      step: "frequencyRange",
+      message: `Only ${diagnostics.freqSamples} clear pitch samples were captured. Keep whistling for the whole range step.`,
+    });
+  }
+  if (diagnostics.rangeSemitones < MIN_RANGE_SEMITONES) {
+    problems.push({
+      step: "frequencyRange",
+      message: `The range is only ${diagnostics.rangeSemitones.toFixed(
+        1
+      )} semitones wide. Sweep from your lowest to your highest comfortable whistle.`,
+    });
+  }
+  if (diagnostics.rangeDriftSemitones > MAX_RANGE_DRIFT_SEMITONES) {
+    problems.push({
+      step: "frequencyRange",
+      message: `The lowest and highest notes moved by about ${diagnostics.rangeDriftSemitones.toFixed(
+        1
+      )} semitones during the range step. Sweep between the same two notes a few times.`,
+    });
+  }
+
+  const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+  const score =
+    40 * clamp01(diagnostics.snrDb / GOOD_SNR_DB) +
+    30 * clamp01(diagnostics.rangeSemitones / GOOD_RANGE_SEMITONES) +
+    15 * clamp01(diagnostics.freqSamples / GOOD_FREQ_SAMPLES) +
+    15 *
+      clamp01(1 - diagnostics.rangeDriftSemitones / MAX_RANGE_DRIFT_SEMITONES);
+  return {
+    // a calibration with known problems never scores as good
+    score: Math.round(problems.length > 0 ? Math.min(score, 50) : score),
+    problems,
+  };
+}
+
+/** Whether two players' ranges share frequencies, they then cannot be told apart. */
+export function bandsOverlap(a: CalibrationResult, b: CalibrationResult) {
+  return a.minFreq <= b.maxFreq && b.minFreq <= a.maxFreq;
 }
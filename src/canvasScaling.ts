@@ -0,0 +1,40 @@
+import { CSSProperties } from "react";
+
+// leaves room for the controls around the canvas
+const MAX_VIEWPORT_HEIGHT = "80vh";
+
+/**
+ * Sizes the canvas backing store to its displayed size times the device
+ * pixel ratio and maps `viewWidth` x `viewHeight` units onto it, so drawing
+ * code never deals with pixels. Call it before drawing every frame, the
+ * backing store is only reallocated when the size actually changed.
+ */
+export function fitCanvas(
+  canvas: HTMLCanvasElement,
+  ctx: CanvasRenderingContext2D,
+  viewWidth: number,
+  viewHeight: number
+) {
+  const pixelRatio = window.devicePixelRatio || 1;
+  const width = Math.max(1, Math.round(canvas.clientWidth * pixelRatio));
+  const height = Math.max(1, Math.round(canvas.clientHeight * pixelRatio));
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  ctx.setTransform(width / viewWidth, 0, 0, height / viewHeight, 0, 0);
+}
+
+/** Fills the container width, keeping the aspect ratio of the view. */
+export function canvasStyle(
+  viewWidth: number,
+  viewHeight: number,
+  fullscreen = false
+): CSSProperties {
+  const maxHeight = fullscreen ? "95vh" : MAX_VIEWPORT_HEIGHT;
+  const maxWidth = fullscreen ? "100vw" : "100%";
+  return {
+    aspectRatio: `${viewWidth} / ${viewHeight}`,
+    width: `min(${maxWidth}, ${maxHeight} * ${viewWidth / viewHeight})`,
+  };
+}
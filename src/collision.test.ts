@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { reflect, sweepCircleAabb } from "./collision";
+
+const box = { x: 10, y: 10, width: 20, height: 10 };
+
+describe("sweepCircleAabb", () => {
+  it("stops a fast ball at a thin box it would jump over", () => {
+    const thin = { x: 0, y: 100, width: 50, height: 1 };
+    // from well above to well below in one step
+    const contact = sweepCircleAabb(20, 50, 0, 100, 3, thin);
+    expect(contact).not.toBeNull();
+    expect(contact!.t).toBeCloseTo(0.47);
+    expect(contact!.nx).toBeCloseTo(0);
+    expect(contact!.ny).toBeCloseTo(-1);
+  });
+
+  it("hits the side a ball moves into", () => {
+    const contact = sweepCircleAabb(0, 15, 20, 0, 2, box);
+    expect(contact!.t).toBeCloseTo(0.4);
+    expect(contact!.nx).toBeCloseTo(-1);
+    expect(contact!.ny).toBeCloseTo(0);
+
+    const fromRight = sweepCircleAabb(40, 12, -20, 2, 2, box);
+    expect(fromRight!.t).toBeCloseTo(0.4);
+    expect(fromRight!.nx).toBeCloseTo(1);
+    expect(fromRight!.ny).toBeCloseTo(0);
+  });
+
+  it("gives corner hits a diagonal normal", () => {
+    const contact = sweepCircleAabb(0, 0, 10, 10, 2, box);
+    expect(contact!.t).toBeCloseTo((10 - Math.SQRT2) / 10);
+    expect(contact!.nx).toBeCloseTo(-Math.SQRT1_2);
+    expect(contact!.ny).toBeCloseTo(-Math.SQRT1_2);
+  });
+
+  it("misses a corner the ball passes diagonally", () => {
+    // through the square corner of the expanded box, outside the rounded one
+    expect(sweepCircleAabb(4.3, 12.3, 8, -8, 2, box)).toBeNull();
+  });
+
+  it("ignores boxes out of reach or behind the ball", () => {
+    expect(sweepCircleAabb(0, 0, 5, 0, 2, box)).toBeNull();
+    expect(sweepCircleAabb(0, 15, -20, 0, 2, box)).toBeNull();
+  });
+
+  it("lets a ball overlapping a box move away from it", () => {
+    expect(sweepCircleAabb(20, 21, 0, 5, 2, box)).toBeNull();
+    const contact = sweepCircleAabb(20, 21, 0, -5, 2, box);
+    expect(contact).toEqual({ t: 0, nx: 0, ny: 1 });
+  });
+});
+
+describe("reflect", () => {
+  it("mirrors the velocity about the normal", () => {
+    expect(reflect(3, 4, 0, -1)).toEqual({ dx: 3, dy: -4 });
+    const corner = reflect(1, 1, -Math.SQRT1_2, -Math.SQRT1_2);
+    expect(corner.dx).toBeCloseTo(-1);
+    expect(corner.dy).toBeCloseTo(-1);
+  });
+});
@@ -0,0 +1,178 @@
+export type Aabb = { x: number; y: number; width: number; height: number };
+
+export type Contact = {
+  // fraction of the movement (0..1) at which the circle touches the box
+  t: number;
+  // unit surface normal at the contact point, pointing towards the circle
+  nx: number;
+  ny: number;
+};
+
+// movement along a surface, up to rounding, does not count as moving into it
+const GRAZE_EPSILON = 1e-9;
+
+const movesInto = (dx: number, dy: number, nx: number, ny: number) =>
+  dx * nx + dy * ny < -GRAZE_EPSILON * Math.sqrt(dx * dx + dy * dy);
+
+/**
+ * Sweeps a circle from (x, y) by (dx, dy) against a box and returns the first
+ * contact, if any. Works as a ray cast against the box grown by the radius
+ * with rounded corners, so corner hits get a diagonal normal. Only surfaces
+ * the circle moves into count; a circle moving away from a box it overlaps is
+ * left alone.
+ */
+export function sweepCircleAabb(
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  radius: number,
+  box: Aabb
+): Contact | null {
+  const left = box.x;
+  const right = box.x + box.width;
+  const top = box.y;
+  const bottom = box.y + box.height;
+
+  const overlap = overlapContact(
+    x,
+    y,
+    dx,
+    dy,
+    radius,
+    left,
+    right,
+    top,
+    bottom
+  );
+  if (overlap !== undefined) {
+    return overlap;
+  }
+
+  // slab test against the box expanded by the radius
+  let tEnter = 0;
+  let tExit = 1;
+  let nx = 0;
+  let ny = 0;
+  const axes: [number, number, number, number, 1 | 0, 0 | 1][] = [
+    [x, dx, left - radius, right + radius, 1, 0],
+    [y, dy, top - radius, bottom + radius, 0, 1],
+  ];
+  for (const [origin, delta, min, max, ax, ay] of axes) {
+    if (delta === 0) {
+      if (origin < min || origin > max) {
+        return null;
+      }
+      continue;
+    }
+    let t1 = (min - origin) / delta;
+    let t2 = (max - origin) / delta;
+    let sign = -1;
+    if (t1 > t2) {
+      [t1, t2] = [t2, t1];
+      sign = 1;
+    }
+    if (t1 > tEnter) {
+      tEnter = t1;
+      nx = ax * sign;
+      ny = ay * sign;
+    }
+    tExit = Math.min(tExit, t2);
+    if (tEnter > tExit) {
+      return null;
+    }
+  }
+
+  // the expanded box has square corners - re-test corner regions as circles
+  const hitX = x + dx * tEnter;
+  const hitY = y + dy * tEnter;
+  const cornerX = hitX < left ? left : hitX > right ? right : null;
+  const cornerY = hitY < top ? top : hitY > bottom ? bottom : null;
+  if (cornerX !== null && cornerY !== null) {
+    return sweepCirclePoint(x, y, dx, dy, radius, cornerX, cornerY);
+  }
+  if (nx === 0 && ny === 0) {
+    return null;
+  }
+  return { t: tEnter, nx, ny };
+}
+
+/** Contact for a circle that starts out already touching or inside the box. */
+function overlapContact(
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  radius: number,
+  left: number,
+  right: number,
+  top: number,
+  bottom: number
+): Contact | null | undefined {
+  const closestX = Math.min(Math.max(x, left), right);
+  const closestY = Math.min(Math.max(y, top), bottom);
+  const offsetX = x - closestX;
+  const offsetY = y - closestY;
+  const distanceSq = offsetX ** 2 + offsetY ** 2;
+  if (distanceSq >= radius * radius) {
+    return undefined;
+  }
+
+  let nx: number;
+  let ny: number;
+  if (distanceSq > 0) {
+    const distance = Math.sqrt(distanceSq);
+    nx = offsetX / distance;
+    ny = offsetY / distance;
+  } else {
+    // centre inside the box - push out along the shallowest side
+    const exits = [
+      { depth: x - left, nx: -1, ny: 0 },
+      { depth: right - x, nx: 1, ny: 0 },
+      { depth: y - top, nx: 0, ny: -1 },
+      { depth: bottom - y, nx: 0, ny: 1 },
+    ];
+    const shallowest = exits.reduce((a, b) => (b.depth < a.depth ? b : a));
+    nx = shallowest.nx;
+    ny = shallowest.ny;
+  }
+  return movesInto(dx, dy, nx, ny) ? { t: 0, nx, ny } : null;
+}
+
+function sweepCirclePoint(
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  radius: number,
+  px: number,
+  py: number
+): Contact | null {
+  const fx = x - px;
+  const fy = y - py;
+  const a = dx * dx + dy * dy;
+  const b = 2 * (fx * dx + fy * dy);
+  const c = fx * fx + fy * fy - radius * radius;
+  const discriminant = b * b - 4 * a * c;
+  if (a === 0 || discriminant < 0) {
+    return null;
+  }
+  const t = (-b - Math.sqrt(discriminant)) / (2 * a);
+  if (t < 0 || t > 1) {
+    return null;
+  }
+  const nx = (fx + dx * t) / radius;
+  const ny = (fy + dy * t) / radius;
+  return movesInto(dx, dy, nx, ny) ? { t, nx, ny } : null;
+}
+
+/** Reflects a velocity about a unit normal. */
+export function reflect(
+  dx: number,
+  dy: number,
+  nx: number,
+  ny: number
+): { dx: number; dy: number } {
+  const dot = dx * nx + dy * ny;
+  return { dx: dx - 2 * dot * nx, dy: dy - 2 * dot * ny };
+}
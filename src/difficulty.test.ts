@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import {
+  createDifficulty,
+  DifficultyState,
+  difficultyReport,
+  observeMiss,
+  observeTick,
+} from "./difficulty";
+
+// one adjustment's worth of play
+const WINDOW_TICKS = 300;
+
+function play(
+  difficulty: DifficultyState,
+  windows: number,
+  trackingError: number | null,
+  voiced?: boolean
+) {
+  for (let i = 0; i < windows * WINDOW_TICKS; i++) {
+    observeTick(difficulty, trackingError, voiced);
+  }
+}
+
+describe("adaptive difficulty", () => {
+  it("starts each preset at its starting point", () => {
+    expect(createDifficulty("normal")).toMatchObject({
+      speed: 1,
+      width: 1,
+      assist: 0.2,
+    });
+  });
+
+  it("gets harder one step per window of close tracking", () => {
+    const difficulty = createDifficulty("normal");
+    play(difficulty, 1, 0.02, true);
+    expect(difficulty.speed).toBeCloseTo(1.05);
+    expect(difficulty.width).toBeCloseTo(0.95);
+    expect(difficulty.assist).toBeCloseTo(0.1);
+    expect(difficulty.harder).toBe(1);
+  });
+
+  it("eases straight away on a miss", () => {
+    const difficulty = createDifficulty("normal");
+    observeMiss(difficulty);
+    expect(difficulty.speed).toBeCloseTo(0.95);
+    expect(difficulty.width).toBeCloseTo(1.05);
+    expect(difficulty.assist).toBeCloseTo(0.3);
+    expect(difficulty.easier).toBe(1);
+  });
+
+  it("eases when the voice keeps dropping out", () => {
+    const difficulty = createDifficulty("normal");
+    play(difficulty, 1, 0.02, false);
+    expect(difficulty.easier).toBe(1);
+  });
+
+  it("leaves middling play and play without a ball alone", () => {
+    const difficulty = createDifficulty("normal");
+    play(difficulty, 2, 0.1, true);
+    play(difficulty, 2, null);
+    expect(difficulty).toMatchObject({ speed: 1, easier: 0, harder: 0 });
+  });
+
+  it("stays within the preset's bounds", () => {
+    const difficulty = createDifficulty("normal");
+    play(difficulty, 20, 0.01);
+    expect(difficulty).toMatchObject({ speed: 1.2, width: 0.85, assist: 0 });
+    // steps at the bound do not count
+    expect(difficulty.harder).toBe(4);
+
+    for (let i = 0; i < 20; i++) {
+      observeMiss(difficulty);
+    }
+    expect(difficulty.speed).toBeCloseTo(0.85);
+    expect(difficulty.width).toBeCloseTo(1.25);
+    expect(difficulty.assist).toBeCloseTo(0.6);
+  });
+
+  it("never changes with the difficulty off", () => {
+    const difficulty = createDifficulty("off");
+    play(difficulty, 3, 0.01);
+    observeMiss(difficulty);
+    expect(difficulty).toMatchObject({
+      speed: 1,
+      width: 1,
+      assist: 0,
+      easier: 0,
+      harder: 0,
+    });
+  });
+
+  it("reports the range each factor moved over and the whole run", () => {
+    const difficulty = createDifficulty("normal");
+    play(difficulty, 2, 0.02, true);
+    observeMiss(difficulty);
+    const report = difficultyReport(difficulty);
+    expect(report.speed.min).toBe(1);
+    expect(report.speed.max).toBeCloseTo(1.1);
+    expect(report.speed.final).toBeCloseTo(1.05);
+    expect(report).toMatchObject({
+      easier: 1,
+      harder: 2,
+      misses: 1,
+      dropoutShare: 0,
+    });
+    expect(report.meanTrackingError).toBeCloseTo(0.02);
+  });
+});
@@ -0,0 +1,247 @@
+export type DifficultyPreset = "off" | "easy" | "normal" | "hard";
+
+export const DIFFICULTY_PRESETS: DifficultyPreset[] = [
+  "off",
+  "easy",
+  "normal",
+  "hard",
+];
+
+export const DIFFICULTY_LABEL: Record<DifficultyPreset, string> = {
+  off: "Fixed (levels only)",
+  easy: "Adaptive, easy",
+  normal: "Adaptive, normal",
+  hard: "Adaptive, hard",
+};
+
+type Range = { min: number; max: number; start: number };
+
+type DifficultyBounds = {
+  // ball speed and paddle width factors
+  speed: Range;
+  width: Range;
+  // 0..1, how much the serve is eased, see startServe in the engine
+  assist: Range;
+};
+
+const fixed = (value: number): Range => ({
+  min: value,
+  max: value,
+  start: value,
+});
+
+const DIFFICULTY_BOUNDS: Record<DifficultyPreset, DifficultyBounds> = {
+  off: { speed: fixed(1), width: fixed(1), assist: fixed(0) },
+  easy: {
+    speed: { min: 0.7, max: 1, start: 0.85 },
+    width: { min: 1, max: 1.5, start: 1.2 },
+    assist: { min: 0.3, max: 1, start: 0.6 },
+  },
+  normal: {
+    speed: { min: 0.85, max: 1.2, start: 1 },
+    width: { min: 0.85, max: 1.25, start: 1 },
+    assist: { min: 0, max: 0.6, start: 0.2 },
+  },
+  hard: {
+    speed: { min: 1, max: 1.4, start: 1.1 },
+    width: { min: 0.7, max: 1, start: 0.9 },
+    assist: fixed(0),
+  },
+};
+
+// change per adjustment, easier lowers speed and raises width and assist
+const SPEED_STEP = 0.05;
+const WIDTH_STEP = 0.05;
+const ASSIST_STEP = 0.1;
+// the window of play judged by each adjustment
+const ADJUST_INTERVAL_TICKS = 300;
+// mean distance from the catching position, in paddle positions
+const STRUGGLING_TRACKING_ERROR = 0.15;
+const CRUISING_TRACKING_ERROR = 0.06;
+// share of ticks in play without a voice
+const STRUGGLING_DROPOUTS = 0.3;
+const CRUISING_DROPOUTS = 0.1;
+
+type Spread = { min: number; max: number };
+
+// what the player did over some ticks of play
+type Observations = {
+  ticks: number;
+  // summed tracking error and the ticks it was measured on
+  error: number;
+  errorTicks: number;
+  // ticks without a voice and the ticks a voice was expected on
+  dropouts: number;
+  voiceTicks: number;
+  misses: number;
+};
+
+export type DifficultyState = {
+  preset: DifficultyPreset;
+  speed: number;
+  width: number;
+  assist: number;
+  // since the last adjustment, and the whole run for the report
+  window: Observations;
+  run: Observations;
+  easier: number;
+  harder: number;
+  speedSpread: Spread;
+  widthSpread: Spread;
+  assistSpread: Spread;
+};
+
+export type DifficultyReport = {
+  preset: DifficultyPreset;
+  easier: number;
+  harder: number;
+  speed: Spread & { final: number };
+  width: Spread & { final: number };
+  assist: Spread & { final: number };
+  meanTrackingError: number | null;
+  // null when the input has no voice to drop out
+  dropoutShare: number | null;
+  misses: number;
+};
+
+const clamp = (value: number, { min, max }: Range) =>
+  Math.min(max, Math.max(min, value));
+
+const spreadOf = (value: number): Spread => ({ min: value, max: value });
+
+const noObservations = (): Observations => ({
+  ticks: 0,
+  error: 0,
+  errorTicks: 0,
+  dropouts: 0,
+  voiceTicks: 0,
+  misses: 0,
+});
+
+const meanError = ({ error, errorTicks }: Observations) =>
+  errorTicks === 0 ? null : error / errorTicks;
+
+const dropoutShare = ({ dropouts, voiceTicks }: Observations) =>
+  voiceTicks === 0 ? null : dropouts / voiceTicks;
+
+const widen = (spread: Spread, value: number) => {
+  spread.min = Math.min(spread.min, value);
+  spread.max = Math.max(spread.max, value);
+};
+
+export function createDifficulty(preset: DifficultyPreset): DifficultyState {
+  const { speed, width, assist } = DIFFICULTY_BOUNDS[preset];
+  return {
+    preset,
+    speed: speed.start,
+    width: width.start,
+    assist: assist.start,
+    window: noObservations(),
+    run: noObservations(),
+    easier: 0,
+    harder: 0,
+    speedSpread: spreadOf(speed.start),
+    widthSpread: spreadOf(width.start),
+    assistSpread: spreadOf(assist.start),
+  };
+}
+
+/**
+ * Feeds one tick of play. `trackingError` is the paddle's distance from
+ * where it would catch the ball, null when there is nothing to catch.
+ * `voiced` is undefined for inputs without a voice.
+ */
+export function observeTick(
+  difficulty: DifficultyState,
+  trackingError: number | null,
+  voiced: boolean | undefined
+) {
+  for (const observations of [difficulty.window, difficulty.run]) {
+    observations.ticks += 1;
+    if (trackingError !== null) {
+      observations.error += trackingError;
+      observations.errorTicks += 1;
+    }
+    if (voiced !== undefined) {
+      observations.voiceTicks += 1;
+      observations.dropouts += voiced ? 0 : 1;
+    }
+  }
+  if (difficulty.window.ticks >= ADJUST_INTERVAL_TICKS) {
+    adjust(difficulty);
+  }
+}
+
+/** A lost life eases the game straight away. */
+export function observeMiss(difficulty: DifficultyState) {
+  difficulty.window.misses += 1;
+  difficulty.run.misses += 1;
+  adjust(difficulty);
+}
+
+/**
+ * Judges the play since the last adjustment and moves all factors one step
+ * easier or harder within the preset's bounds, or leaves them alone.
+ */
+function adjust(difficulty: DifficultyState) {
+  const judged = difficulty.window;
+  difficulty.window = noObservations();
+  const error = meanError(judged);
+  const dropouts = dropoutShare(judged) ?? 0;
+  const struggling =
+    judged.misses > 0 ||
+    (error ?? 0) > STRUGGLING_TRACKING_ERROR ||
+    dropouts > STRUGGLING_DROPOUTS;
+  // only judged good when there was a ball to follow
+  const cruising =
+    !struggling &&
+    error !== null &&
+    error < CRUISING_TRACKING_ERROR &&
+    dropouts < CRUISING_DROPOUTS;
+  if (!struggling && !cruising) {
+    return;
+  }
+  const direction = struggling ? -1 : 1;
+  const bounds = DIFFICULTY_BOUNDS[difficulty.preset];
+  const speed = clamp(difficulty.speed + direction * SPEED_STEP, bounds.speed);
+  const width = clamp(difficulty.width - direction * WIDTH_STEP, bounds.width);
+  const assist = clamp(
+    difficulty.assist - direction * ASSIST_STEP,
+    bounds.assist
+  );
+  if (
+    speed === difficulty.speed &&
+    width === difficulty.width &&
+    assist === difficulty.assist
+  ) {
+    // already at the bound
+    return;
+  }
+  difficulty.speed = speed;
+  difficulty.width = width;
+  difficulty.assist = assist;
+  widen(difficulty.speedSpread, speed);
+  widen(difficulty.widthSpread, width);
+  widen(difficulty.assistSpread, assist);
+  if (struggling) {
+    difficulty.easier += 1;
+  } else {
+    difficulty.harder += 1;
+  }
+}
+
+export function difficultyReport(
+  difficulty: DifficultyState
+): DifficultyReport {
+  return {
+    preset: difficulty.preset,
+    easier: difficulty.easier,
+    harder: difficulty.harder,
+    speed: { ...difficulty.speedSpread, final: difficulty.speed },
+    width: { ...difficulty.widthSpread, final: difficulty.width },
+    assist: { ...difficulty.assistSpread, final: difficulty.assist },
+    meanTrackingError: meanError(difficulty.run),
+    dropoutShare: dropoutShare(difficulty.run),
+    misses: difficulty.run.misses,
+  };
+}
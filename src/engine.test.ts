@@ -0,0 +1,244 @@
+import { describe, expect, it } from "vitest";
+import {
+  BALL_RADIUS,
+  BRICK_HEIGHT,
+  BRICK_WIDTH,
+  catchTarget,
+  createGame,
+  EngineInput,
+  GameEvent,
+  GameState,
+  generateBricks,
+  step,
+  tick,
+  TICK_SECONDS,
+} from "./engine";
+import { parseLevel } from "./levels";
+
+/** A game on a single level of `bricks` rows, with the ball already in play. */
+function playing(bricks: string[]): GameState {
+  const state = createGame(1, [parseLevel({ name: "Test", bricks })]);
+  state.phase = "playing";
+  state.phaseTicks = 0;
+  return state;
+}
+
+const brickEvents = (events: GameEvent[]) =>
+  events.filter((event) => event.type === "brick" || event.type === "brickHit");
+
+describe("ball against bricks", () => {
+  it("does not tunnel through a brick thinner than a tick's movement", () => {
+    const state = playing(["2"]);
+    const [brick] = state.bricks;
+    const [ball] = state.balls;
+    ball.x = brick.x + BRICK_WIDTH / 2;
+    ball.y = brick.y + BRICK_HEIGHT + BALL_RADIUS + 5;
+    // twice the brick's height per tick
+    ball.dx = 0;
+    ball.dy = (-2 * BRICK_HEIGHT) / TICK_SECONDS;
+
+    const events = tick(state, { target: null });
+    expect(brickEvents(events)).toEqual([{ type: "brickHit", brick }]);
+    expect(brick.hits).toBe(1);
+    expect(ball.dy).toBeGreaterThan(0);
+    expect(ball.y).toBeGreaterThan(brick.y + BRICK_HEIGHT);
+  });
+
+  it("hits a brick from the side", () => {
+    const state = playing(["2"]);
+    const [brick] = state.bricks;
+    const [ball] = state.balls;
+    ball.x = brick.x - BALL_RADIUS - 1;
+    ball.y = brick.y + BRICK_HEIGHT / 2;
+    ball.dx = 120;
+    ball.dy = 0;
+
+    const events = tick(state, { target: null });
+    expect(brickEvents(events)).toHaveLength(1);
+    expect(ball.dx).toBe(-120);
+    expect(ball.x).toBeLessThan(brick.x - BALL_RADIUS);
+  });
+
+  it("breaks only the front brick of a column", () => {
+    const state = playing(["#", "#"]);
+    const [back, front] = state.bricks;
+    const [ball] = state.balls;
+    ball.x = front.x + BRICK_WIDTH / 2;
+    ball.y = front.y + BRICK_HEIGHT + BALL_RADIUS + 1;
+    ball.dx = 0;
+    ball.dy = -600;
+
+    const events = tick(state, { target: null });
+    expect(brickEvents(events)).toEqual([{ type: "brick", brick: front }]);
+    expect(back.hits).toBe(1);
+  });
+
+  it("breaks one brick when the ball touches two at once", () => {
+    const state = playing(["##"]);
+    const [left, right] = state.bricks;
+    const [ball] = state.balls;
+    // straight up into the gap, reaching both corners together
+    ball.x = (left.x + BRICK_WIDTH + right.x) / 2;
+    ball.y = left.y + BRICK_HEIGHT + 12;
+    ball.dx = 0;
+    ball.dy = -600;
+
+    const events = tick(state, { target: null });
+    expect(brickEvents(events)).toHaveLength(1);
+    expect(state.bricks.filter((brick) => brick.hits > 0)).toHaveLength(1);
+    expect(ball.dy).toBeGreaterThan(0);
+  });
+});
+
+describe("explosive bricks", () => {
+  it("destroy every destructible neighbour and set off other explosives", () => {
+    const state = playing(["9X..#", "3**#."]);
+    const [nine, wall, survivor, three, explosive, chained, far] = state.bricks;
+    const [ball] = state.balls;
+    ball.x = explosive.x + BRICK_WIDTH / 2;
+    ball.y = explosive.y + BRICK_HEIGHT + BALL_RADIUS + 1;
+    ball.dx = 0;
+    ball.dy = -600;
+
+    const events = tick(state, { target: null });
+    const broken = events.flatMap((event) =>
+      event.type === "brick" ? [event.brick] : []
+    );
+    expect(broken).toEqual([explosive, nine, three, chained, far]);
+    expect(wall.hits).toBe(1);
+    expect(survivor.hits).toBe(1);
+  });
+});
+
+describe("serve", () => {
+  it("launches by itself once the countdown runs out", () => {
+    const state = createGame(1, [parseLevel({ name: "Test", bricks: ["#"] })]);
+    let ticks = 0;
+    while (state.phase === "serve") {
+      // a held note is no reason to launch early
+      tick(state, { target: 0.5, voiced: true });
+      ticks += 1;
+    }
+    expect(state.phase).toBe("playing");
+    expect(ticks).toBe(Math.round(3 / TICK_SECONDS));
+  });
+
+  it("launches early only on the launch action", () => {
+    const state = createGame(1, [parseLevel({ name: "Test", bricks: ["#"] })]);
+    tick(state, { target: null, actions: ["fire"] });
+    expect(state.phase).toBe("serve");
+    tick(state, { target: null, actions: ["launch"] });
+    expect(state.phase).toBe("playing");
+  });
+});
+
+const LEVELS = [
+  parseLevel({ name: "First", bricks: ["#*#", "X2X"] }),
+  parseLevel({ name: "Second", bricks: ["#.#", ".2."] }),
+];
+
+const SEEDS = [1, 2, 3, 4];
+
+/** Follows the ball and launches straight away, like the demo input. */
+const autopilot = (state: GameState): EngineInput => ({
+  target: catchTarget(state),
+  actions: ["launch"],
+});
+
+/** Ticks until game over or `ticks` ran, with the level each event came on. */
+function run(
+  state: GameState,
+  ticks: number,
+  inputFor: (state: GameState) => EngineInput
+) {
+  const events: { level: number; event: GameEvent }[] = [];
+  for (let i = 0; i < ticks && state.phase !== "gameOver"; i++) {
+    const level = state.level;
+    for (const event of tick(state, inputFor(state))) {
+      events.push({ level, event });
+    }
+  }
+  return events;
+}
+
+const count = (events: { event: GameEvent }[], type: GameEvent["type"]) =>
+  events.filter(({ event }) => event.type === type).length;
+
+describe.each(SEEDS)("seeded run %i", (seed) => {
+  it("plays the same every time", () => {
+    const first = createGame(seed, LEVELS);
+    const second = createGame(seed, LEVELS);
+    expect(run(first, 5000, autopilot)).toEqual(run(second, 5000, autopilot));
+    expect(first).toEqual(second);
+  });
+
+  it("scores every broken brick by its level", () => {
+    const state = createGame(seed, LEVELS);
+    const events = run(state, 20000, autopilot);
+    const expected = events
+      .filter(({ event }) => event.type === "brick")
+      .reduce((score, { level }) => score + (1 << (level - 1)), 0);
+    expect(expected).toBeGreaterThan(0);
+    expect(state.score).toBe(expected);
+    expect(state.scores).toEqual([expected]);
+  });
+
+  it("advances the level once the last destructible brick breaks", () => {
+    const state = createGame(seed, LEVELS);
+    let cleared = false;
+    for (let i = 0; i < 20000 && !cleared; i++) {
+      const live = state.bricks.filter(
+        (brick) => brick.hits > 0 && brick.type !== "indestructible"
+      );
+      const events = tick(state, autopilot(state));
+      cleared = events.some((event) => event.type === "levelCleared");
+      if (!cleared) {
+        continue;
+      }
+      // only broken on this tick, not some time before
+      expect(live.length).toBeGreaterThan(0);
+      expect(live.every((brick) => brick.hits === 0)).toBe(true);
+      expect(
+        state.bricks.filter((brick) => brick.type === "indestructible")
+      ).toHaveLength(2);
+      expect(state.level).toBe(1);
+    }
+    expect(cleared).toBe(true);
+
+    while (state.phase === "levelCleared") {
+      tick(state, { target: null });
+    }
+    expect(state.phase).toBe("serve");
+    expect(state.level).toBe(2);
+    expect(state.bricks).toEqual(generateBricks(LEVELS[1]));
+  });
+
+  it("loses one life per dropped ball until the game is over", () => {
+    const state = createGame(seed, LEVELS);
+    // never moves, so most serves are missed
+    const events = run(state, 20000, () => ({ target: null }));
+    const extraLives = events.filter(
+      ({ event }) => event.type === "powerUp" && event.kind === "extraLife"
+    ).length;
+    expect(state.phase).toBe("gameOver");
+    expect(state.lives).toBe(0);
+    expect(count(events, "gameOver")).toBe(1);
+    expect(count(events, "lifeLost") + 1).toBe(3 + extraLives);
+  });
+
+  it("plays the same at any frame rate", () => {
+    const slow = createGame(seed, LEVELS);
+    const fast = createGame(seed, LEVELS);
+    const input = { target: 0.5 };
+    for (let frame = 0; frame < 300; frame++) {
+      step(slow, input, 1 / 30);
+      step(fast, input, 1 / 120);
+      step(fast, input, 1 / 120);
+      step(fast, input, 1 / 60);
+    }
+    expect(fast.tick).toBe(slow.tick);
+    // the leftover time differs by rounding only
+    expect(fast.accumulator).toBeCloseTo(slow.accumulator);
+    expect({ ...fast, accumulator: 0 }).toEqual({ ...slow, accumulator: 0 });
+  });
+});
@@ -0,0 +1,929 @@
+import { createRng, nextFloat, nextRange, Rng } from "./random";
+import { Contact, reflect, sweepCircleAabb } from "./collision";
+import { BrickType, Level, MAX_LEVEL_COLUMNS } from "./levels";
+import {
+  createDifficulty,
+  DifficultyPreset,
+  DifficultyState,
+  observeMiss,
+  observeTick,
+} from "./difficulty";
+import {
+  isTimedPowerUp,
+  POWER_UP_DURATION_SECONDS,
+  PowerUpKind,
+  randomPowerUp,
+  TimedPowerUp,
+} from "./powerUps";
+
+export const WORLD_WIDTH = 300;
+export const WORLD_HEIGHT = 300;
+export const PADDLE_WIDTH = WORLD_WIDTH / 4;
+export const PADDLE_HEIGHT = WORLD_HEIGHT / 60;
+export const BALL_RADIUS = PADDLE_HEIGHT;
+export const BRICK_WIDTH = WORLD_WIDTH / 10;
+export const BRICK_HEIGHT = WORLD_HEIGHT / 30;
+const BRICK_PADDING = PADDLE_HEIGHT;
+const BRICK_OFFSET_TOP = BRICK_PADDING;
+const BRICK_OFFSET_LEFT =
+  WORLD_WIDTH - MAX_LEVEL_COLUMNS * (BRICK_WIDTH + BRICK_PADDING);
+const BALL_ANGLE_ADJUSTMENT = Math.PI / 3;
+// keeps the ball from leaving the paddle almost horizontally
+const MIN_BOUNCE_ANGLE = Math.PI / 12;
+// contacts resolved per tick, leftover movement is dropped after that
+const MAX_CONTACTS_PER_TICK = 4;
+// world units per second, used when a level does not set its own
+const BALL_SPEED = 78;
+// serve direction is randomized between these angles off vertical
+const SERVE_MIN_ANGLE = Math.PI / 12;
+const SERVE_MAX_ANGLE = Math.PI / 4;
+
+export const CAPSULE_WIDTH = BRICK_WIDTH * 0.6;
+export const CAPSULE_HEIGHT = BRICK_HEIGHT * 0.8;
+const CAPSULE_SPEED = 60;
+// chance that a broken brick drops a power-up capsule
+const POWER_UP_CHANCE = 0.15;
+export const LASER_LENGTH = 6;
+const LASER_SPEED = 300;
+const LASER_COOLDOWN_SECONDS = 0.3;
+const MAX_BALLS = 6;
+// angle between the split balls of a multiball
+const MULTIBALL_SPREAD = Math.PI / 9;
+const WIDE_PADDLE_FACTOR = 1.5;
+const SHRUNK_PADDLE_FACTOR = 0.6;
+const SLOW_BALL_FACTOR = 0.6;
+// a ball held by the sticky paddle launches by itself after this long
+const STICKY_AUTO_RELEASE_SECONDS = 5;
+export const MAX_LIVES = 9;
+const SERVE_COUNTDOWN_SECONDS = 3;
+// added to the countdown at full serve assistance
+const SERVE_ASSIST_SECONDS = 2;
+// short breaks before the next serve
+const LIFE_LOST_SECONDS = 1.5;
+const LEVEL_CLEARED_SECONDS = 2;
+// two paddles share the bottom, each keeps to its own half
+const TWO_PLAYER_PADDLE_FACTOR = 0.5;
+// versus: a ball dropped in your half scores this for the other player
+const VERSUS_MISS_POINTS = 5;
+
+// simulation always advances in ticks of this length regardless of frame rate
+export const TICK_SECONDS = 1 / 60;
+// longer frames (e.g. a backgrounded tab) are clamped instead of replayed
+const MAX_FRAME_SECONDS = 0.25;
+
+export type Paddle = { x: number; y: number };
+export type Ball = {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+  // player whose paddle touched the ball last, bricks score for them
+  owner: number;
+  // set while held by the sticky paddle, dx/dy then keep the launch speed
+  stuck: { paddle: number; offset: number; ticks: number } | null;
+};
+export type Capsule = { x: number; y: number; kind: PowerUpKind };
+export type Laser = { x: number; y: number; owner: number };
+export type Brick = {
+  x: number;
+  y: number;
+  row: number;
+  column: number;
+  type: BrickType;
+  // hits left before the brick breaks, 0 once broken
+  hits: number;
+};
+
+/**
+ * serve -> playing -> lifeLost -> serve ... -> gameOver, with levelCleared
+ * leading into the serve on the next level. paused can interrupt any phase
+ * but gameOver and returns to it on resume.
+ */
+export type GamePhase =
+  | "serve"
+  | "playing"
+  | "lifeLost"
+  | "levelCleared"
+  | "paused"
+  | "gameOver";
+
+/**
+ * single: one paddle. coop: two paddles, one team score and shared lives.
+ * versus: two paddles on shared lives, bricks score for the player who hit
+ * the ball last and a ball dropped in a half scores for the other player.
+ */
+export type PlayMode = "single" | "coop" | "versus";
+
+export const PLAY_MODES: PlayMode[] = ["single", "coop", "versus"];
+
+export const PLAY_MODE_LABEL: Record<PlayMode, string> = {
+  single: "One player",
+  coop: "Two players, co-op",
+  versus: "Two players, versus",
+};
+
+export type GameOptions = {
+  lives: number;
+  mode: PlayMode;
+  difficulty: DifficultyPreset;
+};
+
+export const DEFAULT_GAME_OPTIONS: GameOptions = {
+  lives: 3,
+  mode: "single",
+  difficulty: "off",
+};
+
+export type GameState = {
+  rng: Rng;
+  tick: number;
+  // unsimulated time carried over to the next step
+  accumulator: number;
+  mode: PlayMode;
+  // one per player, player 1 first
+  paddles: Paddle[];
+  // player whose paddle holds the ball on the next serve
+  server: number;
+  balls: Ball[];
+  bricks: Brick[];
+  capsules: Capsule[];
+  lasers: Laser[];
+  // ticks left for each timed power-up, 0 when inactive
+  effects: Record<TimedPowerUp, number>;
+  laserCooldown: number;
+  levels: Level[];
+  // all players together, the run's score
+  score: number;
+  scores: number[];
+  lives: number;
+  // 1-based, keeps counting up when the level list wraps around
+  level: number;
+  phase: GamePhase;
+  // ticks left in the serve countdown and the breaks around it
+  phaseTicks: number;
+  // phase to return to once resumed, set while paused
+  pausedFrom: GamePhase | null;
+  // factors on ball speed, paddle width and serve, adapted during play
+  difficulty: DifficultyState;
+};
+
+export type GameAction = "launch" | "fire";
+
+export type EngineInput = {
+  // normalized paddle target (0..1), null keeps the paddle where it is
+  target: number | null;
+  // the same for player 2's paddle in two-player modes
+  secondTarget?: number | null;
+  // whether player 1's voice is heard, left out for inputs without one
+  voiced?: boolean;
+  // one-off actions, applied on the tick they are passed to
+  actions?: GameAction[];
+};
+
+export type GameEvent =
+  | { type: "wall" }
+  | { type: "paddle" }
+  | { type: "brickHit"; brick: Brick }
+  | { type: "brick"; brick: Brick }
+  | { type: "levelCleared"; level: number }
+  | { type: "powerUp"; kind: PowerUpKind }
+  | { type: "laser" }
+  | { type: "lifeLost"; lives: number }
+  | { type: "gameOver"; score: number };
+
+const secondsToTicks = (seconds: number) => Math.round(seconds / TICK_SECONDS);
+
+function noEffects(): Record<TimedPowerUp, number> {
+  return { wide: 0, shrink: 0, slow: 0, sticky: 0, laser: 0 };
+}
+
+export function generateBricks(level: Level): Brick[] {
+  const bricks: Brick[] = [];
+  level.bricks.forEach((row, r) =>
+    row.forEach((spec, c) => {
+      if (spec) {
+        bricks.push({
+          x: c * (BRICK_WIDTH + BRICK_PADDING) + BRICK_OFFSET_LEFT,
+          y: r * (BRICK_HEIGHT + BRICK_PADDING) + BRICK_OFFSET_TOP,
+          row: r,
+          column: c,
+          type: spec.type,
+          hits: spec.hits,
+        });
+      }
+    })
+  );
+  return bricks;
+}
+
+export function currentLevel(state: GameState): Level {
+  return state.levels[(state.level - 1) % state.levels.length];
+}
+
+function ballSpeed(state: GameState) {
+  return currentLevel(state).ballSpeed ?? BALL_SPEED;
+}
+
+export function isLevelCleared(state: GameState) {
+  return state.bricks.every(
+    (brick) => brick.hits === 0 || brick.type === "indestructible"
+  );
+}
+
+/** `assist` (0..1) narrows the serve towards the vertical, easier to follow. */
+function serveBall(rng: Rng, speed: number, assist: number): Ball {
+  const side = nextFloat(rng) < 0.5 ? -1 : 1;
+  const maxAngle =
+    SERVE_MAX_ANGLE - assist * (SERVE_MAX_ANGLE - SERVE_MIN_ANGLE);
+  const angle = -Math.PI / 2 + side * nextRange(rng, SERVE_MIN_ANGLE, maxAngle);
+  return {
+    x: WORLD_WIDTH / 2,
+    y: WORLD_HEIGHT - 30,
+    dx: Math.cos(angle) * speed,
+    dy: Math.sin(angle) * speed,
+    owner: 0,
+    stuck: null,
+  };
+}
+
+export function playerCount(state: GameState) {
+  return state.paddles.length;
+}
+
+export function createGame(
+  seed: number,
+  levels: Level[],
+  options: GameOptions = DEFAULT_GAME_OPTIONS
+): GameState {
+  const rng = createRng(seed);
+  const [firstLevel] = levels;
+  const players = options.mode === "single" ? 1 : 2;
+  const difficulty = createDifficulty(options.difficulty);
+  const state: GameState = {
+    rng,
+    tick: 0,
+    accumulator: 0,
+    mode: options.mode,
+    // centred in their part of the field
+    paddles: Array.from({ length: players }, (_, player) => ({
+      x: ((player + 0.5) * WORLD_WIDTH) / players - PADDLE_WIDTH / 2,
+      y: WORLD_HEIGHT - PADDLE_HEIGHT - 10,
+    })),
+    server: 0,
+    balls: [
+      serveBall(rng, firstLevel.ballSpeed ?? BALL_SPEED, difficulty.assist),
+    ],
+    bricks: generateBricks(firstLevel),
+    capsules: [],
+    lasers: [],
+    effects: noEffects(),
+    laserCooldown: 0,
+    levels,
+    score: 0,
+    scores: Array(players).fill(0),
+    lives: Math.min(MAX_LIVES, Math.max(1, options.lives)),
+    level: 1,
+    phase: "serve",
+    phaseTicks: secondsToTicks(serveSeconds(difficulty)),
+    pausedFrom: null,
+    difficulty,
+  };
+  holdServedBall(state);
+  return state;
+}
+
+export function paddleWidth(state: GameState) {
+  const base =
+    (currentLevel(state).paddleWidth ?? PADDLE_WIDTH) *
+    (playerCount(state) > 1 ? TWO_PLAYER_PADDLE_FACTOR : 1) *
+    state.difficulty.width;
+  if (state.effects.wide > 0) {
+    return base * WIDE_PADDLE_FACTOR;
+  }
+  if (state.effects.shrink > 0) {
+    return base * SHRUNK_PADDLE_FACTOR;
+  }
+  return base;
+}
+
+/** Left-most and right-most x of a player's paddle, their share of the field. */
+function paddleRange(state: GameState, player: number) {
+  const share = WORLD_WIDTH / playerCount(state);
+  return {
+    minX: player * share,
+    maxX: (player + 1) * share - paddleWidth(state),
+  };
+}
+
+function updatePaddles(state: GameState, input: EngineInput) {
+  const targets = [input.target, input.secondTarget ?? null];
+  state.paddles.forEach((paddle, player) => {
+    const { minX, maxX } = paddleRange(state, player);
+    const target = targets[player];
+    if (target !== null) {
+      paddle.x = minX + target * (maxX - minX);
+    }
+    // the paddle may have just grown past the wall
+    paddle.x = Math.min(maxX, Math.max(minX, paddle.x));
+  });
+}
+
+/** The player whose half `x` is in. */
+function playerAt(state: GameState, x: number) {
+  const share = WORLD_WIDTH / playerCount(state);
+  return Math.min(playerCount(state) - 1, Math.max(0, Math.floor(x / share)));
+}
+
+type Collision =
+  | { kind: "wall"; contact: Contact }
+  | { kind: "paddle"; contact: Contact; player: number }
+  | { kind: "brick"; contact: Contact; brick: Brick };
+
+function sweepWalls(ball: Ball, dx: number, dy: number): Contact | null {
+  let earliest: Contact | null = null;
+  const consider = (t: number, nx: number, ny: number) => {
+    t = Math.max(0, t);
+    if (t <= 1 && (earliest === null || t < earliest.t)) {
+      earliest = { t, nx, ny };
+    }
+  };
+  if (dx < 0) {
+    consider((BALL_RADIUS - ball.x) / dx, 1, 0);
+  } else if (dx > 0) {
+    consider((WORLD_WIDTH - BALL_RADIUS - ball.x) / dx, -1, 0);
+  }
+  if (dy < 0) {
+    consider((BALL_RADIUS - ball.y) / dy, 0, 1);
+  }
+  return earliest;
+}
+
+function findEarliestCollision(
+  state: GameState,
+  ball: Ball,
+  dx: number,
+  dy: number
+): Collision | null {
+  let earliest: Collision | null = null;
+
+  const wall = sweepWalls(ball, dx, dy);
+  if (wall) {
+    earliest = { kind: "wall", contact: wall };
+  }
+
+  state.paddles.forEach((paddle, player) => {
+    const contact = sweepCircleAabb(ball.x, ball.y, dx, dy, BALL_RADIUS, {
+      x: paddle.x,
+      y: paddle.y,
+      width: paddleWidth(state),
+      height: PADDLE_HEIGHT,
+    });
+    if (contact && (!earliest || contact.t < earliest.contact.t)) {
+      earliest = { kind: "paddle", contact, player };
+    }
+  });
+
+  for (const brick of state.bricks) {
+    if (brick.hits === 0) {
+      continue;
+    }
+    const contact = sweepCircleAabb(ball.x, ball.y, dx, dy, BALL_RADIUS, {
+      x: brick.x,
+      y: brick.y,
+      width: BRICK_WIDTH,
+      height: BRICK_HEIGHT,
+    });
+    if (contact && (!earliest || contact.t < earliest.contact.t)) {
+      earliest = { kind: "brick", contact, brick };
+    }
+  }
+
+  return earliest;
+}
+
+function bounceOffPaddle(
+  state: GameState,
+  ball: Ball,
+  contact: Contact,
+  player: number
+) {
+  const paddle = state.paddles[player];
+  const bounced = reflect(ball.dx, ball.dy, contact.nx, contact.ny);
+  ball.dx = bounced.dx;
+  ball.dy = bounced.dy;
+  ball.owner = player;
+  if (contact.ny >= 0) {
+    // side or underside hit - plain reflection
+    return;
+  }
+  if (state.effects.sticky > 0) {
+    ball.stuck = { paddle: player, offset: ball.x - paddle.x, ticks: 0 };
+    ball.y = paddle.y - BALL_RADIUS;
+  }
+  const width = paddleWidth(state);
+  const ballSpeed = Math.sqrt(ball.dx ** 2 + ball.dy ** 2);
+  const paddleRatio = Math.min(
+    0.5,
+    Math.max(-0.5, (ball.x - paddle.x) / width - 0.5)
+  ); // -0.5 to 0.5
+  const ballVAngle = Math.min(
+    -MIN_BOUNCE_ANGLE,
+    Math.max(
+      -Math.PI + MIN_BOUNCE_ANGLE,
+      Math.atan2(ball.dy, ball.dx) + paddleRatio * BALL_ANGLE_ADJUSTMENT
+    )
+  );
+  ball.dx = Math.cos(ballVAngle) * ballSpeed;
+  ball.dy = Math.sin(ballVAngle) * ballSpeed;
+}
+
+function enterPhase(state: GameState, phase: GamePhase, seconds = 0) {
+  state.phase = phase;
+  state.phaseTicks = secondsToTicks(seconds);
+}
+
+function serveSeconds(difficulty: DifficultyState) {
+  return SERVE_COUNTDOWN_SECONDS + difficulty.assist * SERVE_ASSIST_SECONDS;
+}
+
+/** Clears the field and holds a fresh ball on the paddle for the countdown. */
+function startServe(state: GameState) {
+  const { assist } = state.difficulty;
+  state.balls = [serveBall(state.rng, ballSpeed(state), assist)];
+  state.capsules = [];
+  state.lasers = [];
+  state.effects = noEffects();
+  enterPhase(state, "serve", serveSeconds(state.difficulty));
+  holdServedBall(state);
+}
+
+function holdServedBall(state: GameState) {
+  const paddle = state.paddles[state.server];
+  for (const ball of state.balls) {
+    ball.x = paddle.x + paddleWidth(state) / 2;
+    ball.y = paddle.y - BALL_RADIUS;
+    ball.owner = state.server;
+  }
+}
+
+function addScore(state: GameState, player: number, points: number) {
+  state.score += points;
+  state.scores[player] += points;
+}
+
+function breakBrick(
+  state: GameState,
+  brick: Brick,
+  player: number,
+  events: GameEvent[]
+) {
+  brick.hits = 0;
+  addScore(state, player, 1 << (state.level - 1));
+  events.push({ type: "brick", brick });
+  if (nextFloat(state.rng) < POWER_UP_CHANCE) {
+    state.capsules.push({
+      x: brick.x + (BRICK_WIDTH - CAPSULE_WIDTH) / 2,
+      y: brick.y,
+      kind: randomPowerUp(state.rng),
+    });
+  }
+  if (brick.type === "explosive") {
+    // destroys the destructible neighbours outright, whatever hits they have
+    // left, and explosives among them go off in turn
+    for (const other of state.bricks) {
+      if (
+        other.hits > 0 &&
+        other.type !== "indestructible" &&
+        Math.abs(other.row - brick.row) <= 1 &&
+        Math.abs(other.column - brick.column) <= 1
+      ) {
+        breakBrick(state, other, player, events);
+      }
+    }
+  }
+}
+
+function hitBrick(
+  state: GameState,
+  brick: Brick,
+  player: number,
+  events: GameEvent[]
+) {
+  if (brick.type === "indestructible") {
+    events.push({ type: "brickHit", brick });
+    return;
+  }
+  if (brick.hits > 1) {
+    brick.hits -= 1;
+    events.push({ type: "brickHit", brick });
+    return;
+  }
+  breakBrick(state, brick, player, events);
+}
+
+function resolveCollision(
+  state: GameState,
+  ball: Ball,
+  collision: Collision,
+  events: GameEvent[]
+) {
+  const { contact } = collision;
+  switch (collision.kind) {
+    case "wall": {
+      const bounced = reflect(ball.dx, ball.dy, contact.nx, contact.ny);
+      ball.dx = bounced.dx;
+      ball.dy = bounced.dy;
+      events.push({ type: "wall" });
+      break;
+    }
+    case "paddle":
+      bounceOffPaddle(state, ball, contact, collision.player);
+      events.push({ type: "paddle" });
+      break;
+    case "brick": {
+      const bounced = reflect(ball.dx, ball.dy, contact.nx, contact.ny);
+      ball.dx = bounced.dx;
+      ball.dy = bounced.dy;
+      hitBrick(state, collision.brick, ball.owner, events);
+      break;
+    }
+  }
+}
+
+/**
+ * Moves a ball over one tick, stopping at the earliest contact, resolving
+ * it and continuing with the remaining movement.
+ */
+function updateBall(state: GameState, ball: Ball, events: GameEvent[]) {
+  if (ball.stuck) {
+    const paddle = state.paddles[ball.stuck.paddle];
+    ball.stuck.ticks += 1;
+    ball.x = paddle.x + Math.min(paddleWidth(state), ball.stuck.offset);
+    ball.y = paddle.y - BALL_RADIUS;
+    if (ball.stuck.ticks >= secondsToTicks(STICKY_AUTO_RELEASE_SECONDS)) {
+      launchBall(state, ball);
+    }
+    return;
+  }
+
+  const speedFactor =
+    (state.effects.slow > 0 ? SLOW_BALL_FACTOR : 1) * state.difficulty.speed;
+  let remaining = 1;
+  for (let i = 0; i < MAX_CONTACTS_PER_TICK && remaining > 0; i++) {
+    const dx = ball.dx * TICK_SECONDS * speedFactor * remaining;
+    const dy = ball.dy * TICK_SECONDS * speedFactor * remaining;
+    const collision = findEarliestCollision(state, ball, dx, dy);
+    if (!collision) {
+      ball.x += dx;
+      ball.y += dy;
+      break;
+    }
+    ball.x += dx * collision.contact.t;
+    ball.y += dy * collision.contact.t;
+    remaining *= 1 - collision.contact.t;
+    resolveCollision(state, ball, collision, events);
+    if (ball.stuck) {
+      break;
+    }
+  }
+}
+
+function launchBall(state: GameState, ball: Ball) {
+  const speed = Math.sqrt(ball.dx ** 2 + ball.dy ** 2);
+  const paddle = state.paddles[ball.stuck?.paddle ?? ball.owner];
+  const ratio = (ball.x - paddle.x) / paddleWidth(state) - 0.5;
+  const angle = -Math.PI / 2 + ratio * BALL_ANGLE_ADJUSTMENT;
+  ball.dx = Math.cos(angle) * speed;
+  ball.dy = Math.sin(angle) * speed;
+  ball.stuck = null;
+}
+
+function fireLasers(state: GameState, events: GameEvent[]) {
+  if (state.effects.laser === 0 || state.laserCooldown > 0) {
+    return;
+  }
+  const inset = PADDLE_HEIGHT;
+  state.paddles.forEach((paddle, owner) =>
+    state.lasers.push(
+      { x: paddle.x + inset, y: paddle.y, owner },
+      { x: paddle.x + paddleWidth(state) - inset, y: paddle.y, owner }
+    )
+  );
+  state.laserCooldown = secondsToTicks(LASER_COOLDOWN_SECONDS);
+  events.push({ type: "laser" });
+}
+
+function applyActions(
+  state: GameState,
+  input: EngineInput,
+  events: GameEvent[]
+) {
+  for (const action of input.actions ?? []) {
+    switch (action) {
+      case "launch":
+        state.balls
+          .filter((ball) => ball.stuck)
+          .forEach((ball) => launchBall(state, ball));
+        break;
+      case "fire":
+        fireLasers(state, events);
+        break;
+    }
+  }
+}
+
+function updateLasers(state: GameState, events: GameEvent[]) {
+  state.lasers = state.lasers.filter((laser) => {
+    const newY = laser.y - LASER_SPEED * TICK_SECONDS;
+    // nearest live brick the laser passes through this tick
+    let target: Brick | null = null;
+    for (const brick of state.bricks) {
+      if (
+        brick.hits > 0 &&
+        laser.x >= brick.x &&
+        laser.x <= brick.x + BRICK_WIDTH &&
+        brick.y <= laser.y &&
+        brick.y + BRICK_HEIGHT >= newY &&
+        (target === null || brick.y > target.y)
+      ) {
+        target = brick;
+      }
+    }
+    if (target) {
+      hitBrick(state, target, laser.owner, events);
+      return false;
+    }
+    laser.y = newY;
+    return newY + LASER_LENGTH > 0;
+  });
+}
+
+function applyPowerUp(state: GameState, kind: PowerUpKind) {
+  if (isTimedPowerUp(kind)) {
+    state.effects[kind] = secondsToTicks(POWER_UP_DURATION_SECONDS[kind]);
+    // wide and shrink cancel each other out
+    if (kind === "wide") {
+      state.effects.shrink = 0;
+    } else if (kind === "shrink") {
+      state.effects.wide = 0;
+    }
+    return;
+  }
+  switch (kind) {
+    case "multiball":
+      for (const ball of [...state.balls]) {
+        for (const side of [-1, 1]) {
+          if (state.balls.length >= MAX_BALLS) {
+            return;
+          }
+          const angle = Math.atan2(ball.dy, ball.dx) + side * MULTIBALL_SPREAD;
+          const speed = Math.sqrt(ball.dx ** 2 + ball.dy ** 2);
+          state.balls.push({
+            x: ball.x,
+            y: ball.y,
+            dx: Math.cos(angle) * speed,
+            dy: Math.sin(angle) * speed,
+            owner: ball.owner,
+            stuck: null,
+          });
+        }
+      }
+      break;
+    case "extraLife":
+      state.lives = Math.min(MAX_LIVES, state.lives + 1);
+      break;
+  }
+}
+
+function updateCapsules(state: GameState, events: GameEvent[]) {
+  const width = paddleWidth(state);
+  state.capsules = state.capsules.filter((capsule) => {
+    capsule.y += CAPSULE_SPEED * TICK_SECONDS;
+    const caught = state.paddles.some(
+      (paddle) =>
+        capsule.y + CAPSULE_HEIGHT >= paddle.y &&
+        capsule.y <= paddle.y + PADDLE_HEIGHT &&
+        capsule.x + CAPSULE_WIDTH >= paddle.x &&
+        capsule.x <= paddle.x + width
+    );
+    if (caught) {
+      applyPowerUp(state, capsule.kind);
+      events.push({ type: "powerUp", kind: capsule.kind });
+      return false;
+    }
+    return capsule.y < WORLD_HEIGHT;
+  });
+}
+
+function updateEffects(state: GameState) {
+  for (const kind of Object.keys(state.effects) as TimedPowerUp[]) {
+    state.effects[kind] = Math.max(0, state.effects[kind] - 1);
+  }
+  state.laserCooldown = Math.max(0, state.laserCooldown - 1);
+}
+
+function checkLostBalls(state: GameState, events: GameEvent[]) {
+  state.balls = state.balls.filter((ball) => {
+    if (ball.y + BALL_RADIUS <= WORLD_HEIGHT) {
+      return true;
+    }
+    if (state.mode === "versus") {
+      const loser = playerAt(state, ball.x);
+      addScore(state, 1 - loser, VERSUS_MISS_POINTS << (state.level - 1));
+      // whoever dropped the ball serves the next one
+      state.server = loser;
+    }
+    return false;
+  });
+  if (state.balls.length > 0) {
+    return;
+  }
+  state.lives -= 1;
+  state.capsules = [];
+  state.lasers = [];
+  observeMiss(state.difficulty);
+  if (state.lives > 0) {
+    events.push({ type: "lifeLost", lives: state.lives });
+    enterPhase(state, "lifeLost", LIFE_LOST_SECONDS);
+    return;
+  }
+  // Game over
+  enterPhase(state, "gameOver");
+  events.push({ type: "gameOver", score: state.score });
+}
+
+function checkLevelCleared(state: GameState, events: GameEvent[]) {
+  if (!isLevelCleared(state)) {
+    return;
+  }
+  events.push({ type: "levelCleared", level: state.level });
+  state.balls = [];
+  state.capsules = [];
+  state.lasers = [];
+  enterPhase(state, "levelCleared", LEVEL_CLEARED_SECONDS);
+}
+
+/**
+ * Feeds the difficulty controller how far the paddle below the falling ball
+ * is from catching it.
+ */
+function observeControl(state: GameState, input: EngineInput) {
+  const lowest = state.balls.reduce<Ball | null>(
+    (a, b) => (a === null || b.y > a.y ? b : a),
+    null
+  );
+  let trackingError: number | null = null;
+  // a rising ball does not need following yet
+  if (lowest && !lowest.stuck && lowest.dy > 0) {
+    const player = playerAt(state, lowest.x);
+    const { minX, maxX } = paddleRange(state, player);
+    const position = (state.paddles[player].x - minX) / (maxX - minX);
+    const target = catchTarget(state, player);
+    trackingError = target === null ? null : Math.abs(position - target);
+  }
+  observeTick(state.difficulty, trackingError, input.voiced);
+}
+
+function updatePlaying(
+  state: GameState,
+  input: EngineInput,
+  events: GameEvent[]
+) {
+  observeControl(state, input);
+  updateEffects(state);
+  applyActions(state, input, events);
+  for (const ball of [...state.balls]) {
+    updateBall(state, ball, events);
+  }
+  updateLasers(state, events);
+  updateCapsules(state, events);
+  checkLevelCleared(state, events);
+  if (state.phase === "playing") {
+    checkLostBalls(state, events);
+  }
+}
+
+/** Advances the game by exactly one fixed tick. */
+export function tick(state: GameState, input: EngineInput): GameEvent[] {
+  const events: GameEvent[] = [];
+  if (state.phase === "gameOver" || state.phase === "paused") {
+    return events;
+  }
+  updatePaddles(state, input);
+  state.phaseTicks = Math.max(0, state.phaseTicks - 1);
+  switch (state.phase) {
+    case "serve":
+      holdServedBall(state);
+      // launching skips the rest of the countdown
+      if (state.phaseTicks === 0 || input.actions?.includes("launch")) {
+        enterPhase(state, "playing");
+      }
+      break;
+    case "playing":
+      updatePlaying(state, input, events);
+      break;
+    case "lifeLost":
+      if (state.phaseTicks === 0) {
+        startServe(state);
+      }
+      break;
+    case "levelCleared":
+      if (state.phaseTicks === 0) {
+        state.level += 1;
+        state.bricks = generateBricks(currentLevel(state));
+        startServe(state);
+      }
+      break;
+  }
+  state.tick += 1;
+  return events;
+}
+
+/**
+ * Normalized paddle target (0..1) that centres a player's paddle under the
+ * ball closest to it, null when no ball is in play.
+ */
+export function catchTarget(state: GameState, player = 0): number | null {
+  if (state.phase !== "playing" || state.balls.length === 0) {
+    return null;
+  }
+  const lowest = state.balls.reduce((a, b) => (b.y > a.y ? b : a));
+  const { minX, maxX } = paddleRange(state, player);
+  const x = lowest.x - paddleWidth(state) / 2;
+  return Math.min(1, Math.max(0, (x - minX) / (maxX - minX)));
+}
+
+/** Versus winner by score, null for ties and the other modes. */
+export function versusWinner(state: GameState): number | null {
+  if (state.mode !== "versus" || state.scores[0] === state.scores[1]) {
+    return null;
+  }
+  return state.scores[0] > state.scores[1] ? 0 : 1;
+}
+
+export function isGameOver(state: GameState) {
+  return state.phase === "gameOver";
+}
+
+/** Freezes the game, `advance` does nothing until `resumeGame`. */
+export function pauseGame(state: GameState) {
+  if (state.phase === "paused" || state.phase === "gameOver") {
+    return;
+  }
+  state.pausedFrom = state.phase;
+  state.phase = "paused";
+}
+
+export function resumeGame(state: GameState) {
+  if (state.pausedFrom === null) {
+    return;
+  }
+  state.phase = state.pausedFrom;
+  state.pausedFrom = null;
+  state.accumulator = 0;
+}
+
+/** Seconds left until the served ball launches by itself. */
+export function serveCountdown(state: GameState) {
+  return Math.ceil(state.phaseTicks * TICK_SECONDS);
+}
+
+/**
+ * Advances the game by `dt` seconds of wall-clock time using fixed ticks.
+ * Leftover time is kept in the state and used by the next call, so the
+ * simulation is identical at any frame rate. `inputForTick` is asked for the
+ * input of every tick, returning null stops early (e.g. a replay ran out).
+ */
+export function advance(
+  state: GameState,
+  dt: number,
+  inputForTick: (state: GameState) => EngineInput | null,
+  onTick?: (input: EngineInput, events: GameEvent[]) => void
+): GameEvent[] {
+  const events: GameEvent[] = [];
+  if (state.phase === "paused") {
+    state.accumulator = 0;
+    return events;
+  }
+  state.accumulator += Math.min(dt, MAX_FRAME_SECONDS);
+  while (state.accumulator >= TICK_SECONDS && !isGameOver(state)) {
+    const input = inputForTick(state);
+    if (input === null) {
+      state.accumulator = 0;
+      break;
+    }
+    state.accumulator -= TICK_SECONDS;
+    const tickEvents = tick(state, input);
+    onTick?.(input, tickEvents);
+    events.push(...tickEvents);
+  }
+  return events;
+}
+
+export function step(
+  state: GameState,
+  input: EngineInput,
+  dt: number
+): GameEvent[] {
+  return advance(state, dt, () => input);
+}
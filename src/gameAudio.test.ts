@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { notchFrequencies, SOUND_FREQUENCIES } from "./gameAudio";
+
+describe("notchFrequencies", () => {
+  it("notches every sound pitch without a band", () => {
+    expect(notchFrequencies([])).toEqual(SOUND_FREQUENCIES);
+  });
+
+  it("leaves the pitches inside any player's band alone", () => {
+    const bands = [
+      { minFreq: 600, maxFreq: 900 },
+      { minFreq: 1000, maxFreq: 1400 },
+    ];
+    const notched = notchFrequencies(bands);
+    expect(notched).toContain(440);
+    expect(notched).not.toContain(660);
+    expect(notched).not.toContain(1320);
+    for (const frequency of notched) {
+      expect(
+        bands.some(
+          ({ minFreq, maxFreq }) => frequency >= minFreq && frequency <= maxFreq
+        )
+      ).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,266 @@
+import { GameEvent } from "./engine";
+import { VoiceControl } from "./voiceControl";
+import { FrequencyBand } from "./pitchDetection";
+
+/**
+ * How game audio is kept out of the pitch input:
+ * - echoCancellation: the browser subtracts what the page plays
+ * - gate: the microphone reads as silence while a sound plays
+ * - notch: the sound frequencies outside the whistling band are filtered
+ *   out of the microphone and the guide tone falls silent while a voice is
+ *   heard, it sits right on the pitch the player is after
+ */
+export type FeedbackMitigation = "none" | "echoCancellation" | "gate" | "notch";
+
+export const FEEDBACK_MITIGATIONS: FeedbackMitigation[] = [
+  "echoCancellation",
+  "gate",
+  "notch",
+  "none",
+];
+
+export const FEEDBACK_MITIGATION_LABEL: Record<FeedbackMitigation, string> = {
+  echoCancellation: "Echo cancellation (browser)",
+  gate: "Ignore the microphone while sounds play",
+  notch: "Filter sound pitches out of the microphone",
+  none: "None (headphones)",
+};
+
+export type AudioSettings = {
+  muted: boolean;
+  // 0..1
+  volume: number;
+  // plays the pitch that would put the paddle under the ball
+  guideTone: boolean;
+  mitigation: FeedbackMitigation;
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  muted: false,
+  volume: 0.5,
+  guideTone: false,
+  // browsers enable echo cancellation by default, keep that behaviour
+  mitigation: "echoCancellation",
+};
+
+const STORAGE_KEY = "voice-arkanoid.audioSettings";
+
+type Note = {
+  frequency: number;
+  // seconds from the start of the sound
+  start: number;
+  duration: number;
+  wave: OscillatorType;
+};
+
+const note = (
+  frequency: number,
+  start: number,
+  duration: number,
+  wave: OscillatorType = "square"
+): Note => ({ frequency, start, duration, wave });
+
+const SOUNDS: Record<GameEvent["type"], Note[]> = {
+  wall: [note(440, 0, 0.04)],
+  paddle: [note(330, 0, 0.06, "triangle")],
+  brickHit: [note(660, 0, 0.05)],
+  brick: [note(880, 0, 0.08)],
+  powerUp: [
+    note(523, 0, 0.07, "triangle"),
+    note(659, 0.07, 0.07, "triangle"),
+    note(784, 0.14, 0.1, "triangle"),
+  ],
+  laser: [note(1320, 0, 0.05, "sawtooth")],
+  lifeLost: [note(392, 0, 0.15), note(196, 0.15, 0.3)],
+  levelCleared: [
+    note(523, 0, 0.1, "triangle"),
+    note(659, 0.1, 0.1, "triangle"),
+    note(784, 0.2, 0.1, "triangle"),
+    note(1047, 0.3, 0.25, "triangle"),
+  ],
+  gameOver: [note(196, 0, 0.25), note(165, 0.25, 0.25), note(131, 0.5, 0.6)],
+};
+
+// every pitch the sound effects use, for the notch filters
+export const SOUND_FREQUENCIES = [
+  ...new Set(
+    Object.values(SOUNDS).flatMap((notes) =>
+      notes.map((played) => played.frequency)
+    )
+  ),
+];
+
+// a short fade keeps the notes from clicking
+const ATTACK_SECONDS = 0.005;
+// covers the room's reverb after a sound ends
+const GATE_TAIL_MS = 80;
+// guide tone level relative to the effects
+const GUIDE_TONE_GAIN = 0.15;
+const GUIDE_GLIDE_SECONDS = 0.03;
+const GUIDE_DUCK_SECONDS = 0.02;
+
+/**
+ * Sound pitches the notch mitigation filters out. The ones inside a
+ * player's band are left alone, notching them would cut their whistle.
+ */
+export function notchFrequencies(bands: FrequencyBand[]) {
+  return SOUND_FREQUENCIES.filter((frequency) =>
+    bands.every(
+      ({ minFreq, maxFreq }) => frequency < minFreq || frequency > maxFreq
+    )
+  );
+}
+
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    const settings = { ...DEFAULT_AUDIO_SETTINGS };
+    for (const key of Object.keys(settings) as (keyof AudioSettings)[]) {
+      if (typeof stored?.[key] === typeof settings[key]) {
+        Object.assign(settings, { [key]: stored[key] });
+      }
+    }
+    if (!FEEDBACK_MITIGATIONS.includes(settings.mitigation)) {
+      settings.mitigation = DEFAULT_AUDIO_SETTINGS.mitigation;
+    }
+    return settings;
+  } catch (error) {
+    console.warn("Ignoring unreadable audio settings", error);
+    return { ...DEFAULT_AUDIO_SETTINGS };
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Sound effects and the guide tone, played on the microphone's context so
+ * the feedback mitigation can reach both sides.
+ */
+export class GameAudio {
+  private voiceControl: VoiceControl;
+  private context: AudioContext;
+  private output: GainNode;
+  private settings: AudioSettings;
+  private guide: { oscillator: OscillatorNode; gain: GainNode } | null = null;
+  private bands: FrequencyBand[] = [];
+
+  constructor(voiceControl: VoiceControl, settings: AudioSettings) {
+    this.voiceControl = voiceControl;
+    this.context = voiceControl.audioContext;
+    this.output = this.context.createGain();
+    this.output.connect(this.context.destination);
+    this.settings = settings;
+    this.updateSettings(settings);
+  }
+
+  public updateSettings(settings: AudioSettings) {
+    const echoChanged =
+      (settings.mitigation === "echoCancellation") !==
+      (this.settings.mitigation === "echoCancellation");
+    this.settings = settings;
+    this.output.gain.value = settings.muted ? 0 : settings.volume;
+    if (echoChanged) {
+      this.voiceControl.setEchoCancellation(
+        settings.mitigation === "echoCancellation"
+      );
+    }
+    if (!settings.guideTone) {
+      this.setGuideTone(null);
+    }
+    this.updateNotches();
+  }
+
+  /** Browsers start contexts suspended until a user gesture. */
+  public resume() {
+    if (this.context.state === "suspended") {
+      this.context.resume();
+    }
+  }
+
+  private get audible() {
+    return !this.settings.muted && this.settings.volume > 0;
+  }
+
+  public play(event: GameEvent) {
+    if (!this.audible) {
+      return;
+    }
+    const notes = SOUNDS[event.type];
+    const now = this.context.currentTime;
+    let end = 0;
+    for (const played of notes) {
+      const oscillator = this.context.createOscillator();
+      const gain = this.context.createGain();
+      oscillator.type = played.wave;
+      oscillator.frequency.value = played.frequency;
+      const start = now + played.start;
+      const stop = start + played.duration;
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(1, start + ATTACK_SECONDS);
+      gain.gain.linearRampToValueAtTime(0, stop);
+      oscillator.connect(gain).connect(this.output);
+      oscillator.start(start);
+      oscillator.stop(stop);
+      end = Math.max(end, played.start + played.duration);
+    }
+    if (this.settings.mitigation === "gate") {
+      this.voiceControl.gateInput(end * 1000 + GATE_TAIL_MS);
+    }
+  }
+
+  /** The calibrated bands of the players whistling. */
+  public setBands(bands: FrequencyBand[]) {
+    this.bands = bands;
+    this.updateNotches();
+  }
+
+  /**
+   * Glides the guide tone to `frequency`, null silences it. With the notch
+   * mitigation it is ducked while `voiced`, the microphone would hear it.
+   */
+  public setGuideTone(frequency: number | null, voiced = false) {
+    const enabled =
+      frequency !== null && this.settings.guideTone && this.audible;
+    const target = enabled ? frequency : null;
+    if (target === null) {
+      this.guide?.oscillator.stop();
+      this.guide = null;
+    } else {
+      if (!this.guide) {
+        const oscillator = this.context.createOscillator();
+        const gain = this.context.createGain();
+        oscillator.type = "sine";
+        gain.gain.value = 0;
+        oscillator.connect(gain).connect(this.output);
+        oscillator.frequency.value = target;
+        oscillator.start();
+        this.guide = { oscillator, gain };
+      }
+      this.guide.oscillator.frequency.setTargetAtTime(
+        target,
+        this.context.currentTime,
+        GUIDE_GLIDE_SECONDS
+      );
+      const ducked = voiced && this.settings.mitigation === "notch";
+      this.guide.gain.gain.setTargetAtTime(
+        ducked ? 0 : GUIDE_TONE_GAIN,
+        this.context.currentTime,
+        GUIDE_DUCK_SECONDS
+      );
+    }
+  }
+
+  private updateNotches() {
+    this.voiceControl.setNotchFrequencies(
+      this.settings.mitigation === "notch" ? notchFrequencies(this.bands) : []
+    );
+  }
+
+  public dispose() {
+    this.setGuideTone(null);
+    this.output.disconnect();
+    this.voiceControl.setNotchFrequencies([]);
+  }
+}
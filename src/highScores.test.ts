@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { loadHighScores } from "./highScores";
+
+const entry = (changes: Record<string, unknown> = {}) => ({
+  id: "a",
+  player: "Player",
+  inputSource: "voice",
+  levelPack: "Bundled",
+  playedAt: 1,
+  stats: {
+    score: 12,
+    levelReached: 2,
+    durationSeconds: 60,
+    bricksBroken: 12,
+    paddleHits: 30,
+    voiceActiveSeconds: 40,
+    jitterSemitones: null,
+  },
+  ...changes,
+});
+
+const stats = (changes: Record<string, unknown>) => ({
+  stats: { ...entry().stats, ...changes },
+});
+
+describe("loadHighScores", () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const load = (stored: unknown) => {
+    vi.stubGlobal("localStorage", { getItem: () => JSON.stringify(stored) });
+    return loadHighScores();
+  };
+
+  it("keeps complete entries", () => {
+    const jitter = entry(stats({ jitterSemitones: 0.4 }));
+    expect(load([entry(), jitter])).toEqual([entry(), jitter]);
+  });
+
+  it.each([
+    ["the input source", { inputSource: undefined }],
+    ["the level pack", { levelPack: 3 }],
+    ["a date", { playedAt: "yesterday" }],
+    ["the duration", stats({ durationSeconds: undefined })],
+    ["the voice time", stats({ voiceActiveSeconds: null })],
+    ["the bricks broken", stats({ bricksBroken: "12" })],
+    ["the paddle hits", stats({ paddleHits: undefined })],
+    ["a jitter number", stats({ jitterSemitones: "low" })],
+  ])("drops entries without %s", (_, changes) => {
+    expect(load([entry(), entry({ id: "b", ...changes })])).toEqual([entry()]);
+  });
+});
@@ -0,0 +1,149 @@
+import { RunStats } from "./runStats";
+
+export type HighScoreEntry = {
+  id: string;
+  // calibration profile name or the name typed in, whichever was used
+  player: string;
+  inputSource: string;
+  levelPack: string;
+  playedAt: number;
+  stats: RunStats;
+};
+
+const STORAGE_KEY = "voice-arkanoid.highScores";
+// oldest low scores are dropped beyond this
+const MAX_ENTRIES = 200;
+
+export type PersonalBests = {
+  score: number;
+  levelReached: number;
+  bricksBroken: number;
+  durationSeconds: number;
+  // lowest jitter is best
+  jitterSemitones: number | null;
+};
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const RUN_STATS_NUMBERS: (keyof RunStats)[] = [
+  "score",
+  "levelReached",
+  "durationSeconds",
+  "bricksBroken",
+  "paddleHits",
+  "voiceActiveSeconds",
+];
+
+function isRunStats(value: unknown): value is RunStats {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const stats = value as Record<string, unknown>;
+  return (
+    RUN_STATS_NUMBERS.every((key) => isFiniteNumber(stats[key])) &&
+    (stats.jitterSemitones === null || isFiniteNumber(stats.jitterSemitones))
+  );
+}
+
+/** Whether every field the table and the CSV export read is usable. */
+function isHighScoreEntry(value: unknown): value is HighScoreEntry {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.id === "string" &&
+    typeof entry.player === "string" &&
+    typeof entry.inputSource === "string" &&
+    typeof entry.levelPack === "string" &&
+    isFiniteNumber(entry.playedAt) &&
+    isRunStats(entry.stats)
+  );
+}
+
+export function loadHighScores(): HighScoreEntry[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isHighScoreEntry) : [];
+  } catch (error) {
+    console.warn("Ignoring unreadable high scores", error);
+    return [];
+  }
+}
+
+export function saveHighScores(entries: HighScoreEntry[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
+
+export function createHighScoreEntry(
+  fields: Omit<HighScoreEntry, "id">
+): HighScoreEntry {
+  const id = `${fields.playedAt.toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2)}`;
+  return { id, ...fields };
+}
+
+/** Adds a finished run, keeping the table sorted by score. */
+export function addHighScore(
+  entries: HighScoreEntry[],
+  entry: HighScoreEntry
+): HighScoreEntry[] {
+  return [...entries, entry]
+    .sort((a, b) => b.stats.score - a.stats.score || a.playedAt - b.playedAt)
+    .slice(0, MAX_ENTRIES);
+}
+
+export function entriesForPlayer(entries: HighScoreEntry[], player: string) {
+  return entries.filter((entry) => entry.player === player);
+}
+
+export function personalBests(
+  entries: HighScoreEntry[],
+  player: string
+): PersonalBests | null {
+  const own = entriesForPlayer(entries, player);
+  if (own.length === 0) {
+    return null;
+  }
+  const best = (pick: (stats: RunStats) => number) =>
+    Math.max(...own.map((entry) => pick(entry.stats)));
+  const jitters = own
+    .map((entry) => entry.stats.jitterSemitones)
+    .filter((jitter): jitter is number => jitter !== null);
+  return {
+    score: best((stats) => stats.score),
+    levelReached: best((stats) => stats.levelReached),
+    bricksBroken: best((stats) => stats.bricksBroken),
+    durationSeconds: best((stats) => stats.durationSeconds),
+    jitterSemitones: jitters.length > 0 ? Math.min(...jitters) : null,
+  };
+}
+
+const CSV_COLUMNS: [string, (entry: HighScoreEntry) => string | number][] = [
+  ["player", (entry) => entry.player],
+  ["date", (entry) => new Date(entry.playedAt).toISOString()],
+  ["input", (entry) => entry.inputSource],
+  ["levelPack", (entry) => entry.levelPack],
+  ["score", (entry) => entry.stats.score],
+  ["levelReached", (entry) => entry.stats.levelReached],
+  ["durationSeconds", (entry) => entry.stats.durationSeconds.toFixed(1)],
+  ["bricksBroken", (entry) => entry.stats.bricksBroken],
+  ["paddleHits", (entry) => entry.stats.paddleHits],
+  ["voiceActiveSeconds", (entry) => entry.stats.voiceActiveSeconds.toFixed(1)],
+  ["jitterSemitones", (entry) => entry.stats.jitterSemitones?.toFixed(3) ?? ""],
+];
+
+function csvField(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function highScoresToCsv(entries: HighScoreEntry[]) {
+  const header = CSV_COLUMNS.map(([name]) => name).join(",");
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map(([, value]) => csvField(value(entry))).join(",")
+  );
+  return [header, ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_INPUT_FILTER_SETTINGS,
+  INPUT_FILTER_LIMITS,
+  InputFilter,
+  InputFilterSettings,
+  parseInputFilterSettings,
+} from "./inputFilter";
+
+const THRESHOLD = 100;
+const CLARITY = 0.8;
+
+const voiced = (frequency: number) => ({
+  frequency,
+  amplitude: 200,
+  clarity: 0.95,
+});
+
+const filter = (changes: Partial<InputFilterSettings> = {}) =>
+  new InputFilter({ ...DEFAULT_INPUT_FILTER_SETTINGS, ...changes });
+
+describe("parseInputFilterSettings", () => {
+  it("clamps numbers to the limits the panel offers", () => {
+    const settings = parseInputFilterSettings({
+      medianWindow: 0,
+      outlierConfirmFrames: 2.6,
+      exponentialAlpha: 7,
+      oneEuroMinCutoff: -1,
+      maxSpeed: NaN,
+    });
+    expect(settings.medianWindow).toBe(INPUT_FILTER_LIMITS.medianWindow.min);
+    expect(settings.outlierConfirmFrames).toBe(3);
+    expect(settings.exponentialAlpha).toBe(1);
+    expect(settings.oneEuroMinCutoff).toBe(0.1);
+    expect(settings.maxSpeed).toBe(DEFAULT_INPUT_FILTER_SETTINGS.maxSpeed);
+  });
+
+  it("falls back to defaults for wrong types", () => {
+    expect(
+      parseInputFilterSettings({ medianWindow: "9", smoothing: "cubic" })
+    ).toEqual(DEFAULT_INPUT_FILTER_SETTINGS);
+    expect(parseInputFilterSettings(null)).toEqual(
+      DEFAULT_INPUT_FILTER_SETTINGS
+    );
+  });
+
+  it("keeps a stored zero median window from breaking the filter", () => {
+    const input = new InputFilter(
+      parseInputFilterSettings({ medianWindow: 0 })
+    );
+    expect(input.filterPitch(voiced(800), THRESHOLD, CLARITY)).toBe(800);
+  });
+});
+
+describe("InputFilter.filterPitch", () => {
+  it("opens the gate above the hysteresis band and closes below it", () => {
+    const input = filter({ gateHysteresis: 20 });
+    expect(input.isVoiced(105, THRESHOLD)).toBe(false);
+    expect(input.isVoiced(111, THRESHOLD)).toBe(true);
+    expect(input.isVoiced(95, THRESHOLD)).toBe(true);
+    expect(input.isVoiced(89, THRESHOLD)).toBe(false);
+  });
+
+  it("drops unclear frames", () => {
+    const input = filter();
+    expect(
+      input.filterPitch({ ...voiced(800), clarity: 0.5 }, THRESHOLD, CLARITY)
+    ).toBeNull();
+  });
+
+  it("takes the median of the recent frames", () => {
+    const input = filter({ medianWindow: 3, outlierSemitones: 0 });
+    const results = [800, 820, 900, 810].map((frequency) =>
+      input.filterPitch(voiced(frequency), THRESHOLD, CLARITY)
+    );
+    expect(results).toEqual([800, 820, 820, 820]);
+  });
+
+  it("rejects a single octave jump and accepts one that persists", () => {
+    const input = filter({ medianWindow: 1, outlierConfirmFrames: 3 });
+    input.filterPitch(voiced(800), THRESHOLD, CLARITY);
+    const results = [1600, 1600, 1600].map((frequency) =>
+      input.filterPitch(voiced(frequency), THRESHOLD, CLARITY)
+    );
+    expect(results).toEqual([null, null, 1600]);
+  });
+});
+
+describe("InputFilter.filterPosition", () => {
+  // `count` frames at 60 a second after the one at `start` milliseconds
+  const frames = (
+    input: InputFilter,
+    target: number,
+    count: number,
+    start = 0
+  ) => {
+    let position: number | null = null;
+    for (let i = 1; i <= count; i++) {
+      position = input.filterPosition(target, start + (i * 1000) / 60);
+    }
+    return position;
+  };
+
+  it("holds the last position without a target", () => {
+    const input = filter();
+    input.filterPosition(0.3, 0);
+    expect(input.filterPosition(null, 16)).toBe(0.3);
+  });
+
+  it("limits the paddle speed", () => {
+    const input = filter({ smoothing: "none", maxSpeed: 1 });
+    input.filterPosition(0, 0);
+    expect(input.filterPosition(1, 100)).toBeCloseTo(0.1);
+  });
+
+  it("eases exponentially towards the target", () => {
+    const input = filter({
+      smoothing: "exponential",
+      exponentialAlpha: 0.5,
+      maxSpeed: 0,
+    });
+    input.filterPosition(0, 0);
+    expect(input.filterPosition(1, 16)).toBe(0.5);
+    expect(input.filterPosition(1, 32)).toBe(0.75);
+  });
+
+  describe("One-Euro", () => {
+    const oneEuro = (beta: number) =>
+      filter({ smoothing: "oneEuro", oneEuroBeta: beta, maxSpeed: 0 });
+
+    it("smooths a step and settles on the target", () => {
+      const input = oneEuro(0.5);
+      input.filterPosition(0, 0);
+      const first = input.filterPosition(1, 1000 / 60)!;
+      expect(first).toBeGreaterThan(0);
+      expect(first).toBeLessThan(1);
+      expect(frames(input, 1, 120, 1000 / 60)).toBeCloseTo(1, 3);
+    });
+
+    it("follows fast movement more closely with a higher beta", () => {
+      const [still, quick] = [0, 5].map((beta) => {
+        const input = oneEuro(beta);
+        input.filterPosition(0, 0);
+        return frames(input, 1, 3)!;
+      });
+      expect(quick).toBeGreaterThan(still);
+    });
+
+    it("leaves a steady target alone", () => {
+      const input = oneEuro(0.5);
+      input.filterPosition(0.4, 0);
+      expect(frames(input, 0.4, 30)).toBe(0.4);
+    });
+  });
+});
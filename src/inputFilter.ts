@@ -0,0 +1,252 @@
+import { PitchSample } from "./voiceControl";
+
+export type SmoothingMode = "none" | "exponential" | "oneEuro";
+
+export type InputFilterSettings = {
+  // amplitude gate opens at threshold + hysteresis / 2, closes at threshold - hysteresis / 2
+  gateHysteresis: number;
+  // frames in the running median over detected frequencies, 1 disables it
+  medianWindow: number;
+  // drop frames that land about an octave away from the current pitch
+  rejectOctaveJumps: boolean;
+  // jumps bigger than this (in semitones) must persist to be accepted, 0 disables it
+  outlierSemitones: number;
+  outlierConfirmFrames: number;
+  smoothing: SmoothingMode;
+  // exponential smoothing factor, 1 = no smoothing
+  exponentialAlpha: number;
+  // One-Euro filter parameters, cutoffs in Hz
+  oneEuroMinCutoff: number;
+  oneEuroBeta: number;
+  // paddle travel limit in full widths per second, 0 = unlimited
+  maxSpeed: number;
+};
+
+export const DEFAULT_INPUT_FILTER_SETTINGS: InputFilterSettings = {
+  gateHysteresis: 10,
+  medianWindow: 5,
+  rejectOctaveJumps: true,
+  outlierSemitones: 7,
+  outlierConfirmFrames: 4,
+  smoothing: "oneEuro",
+  exponentialAlpha: 0.4,
+  oneEuroMinCutoff: 1.5,
+  oneEuroBeta: 0.5,
+  maxSpeed: 3,
+};
+
+export type NumericFilterSetting = {
+  [K in keyof InputFilterSettings]: InputFilterSettings[K] extends number
+    ? K
+    : never;
+}[keyof InputFilterSettings];
+
+/** Range of every numeric setting, the panel offers and loading enforces. */
+export const INPUT_FILTER_LIMITS: Record<
+  NumericFilterSetting,
+  { min: number; max: number; step: number }
+> = {
+  gateHysteresis: { min: 0, max: 60, step: 1 },
+  medianWindow: { min: 1, max: 15, step: 1 },
+  outlierSemitones: { min: 0, max: 24, step: 1 },
+  outlierConfirmFrames: { min: 1, max: 15, step: 1 },
+  exponentialAlpha: { min: 0.05, max: 1, step: 0.05 },
+  oneEuroMinCutoff: { min: 0.1, max: 10, step: 0.1 },
+  oneEuroBeta: { min: 0, max: 5, step: 0.05 },
+  maxSpeed: { min: 0, max: 10, step: 0.5 },
+};
+
+// octave errors are within this many semitones of exactly 12
+const OCTAVE_TOLERANCE_SEMITONES = 1;
+const ONE_EURO_DERIVATIVE_CUTOFF = 1;
+
+const semitonesBetween = (a: number, b: number) => 12 * Math.log2(a / b);
+
+function smoothingFactor(cutoff: number, dt: number) {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+/**
+ * Stateful filter between pitch detection and the paddle. Frequencies go
+ * through `filterPitch`, the mapped position through `filterPosition`.
+ */
+export class InputFilter {
+  private settings: InputFilterSettings;
+  private gateOpen = false;
+  private lastFrequency: number | null = null;
+  private pendingJump: number[] = [];
+  private recentFrequencies: number[] = [];
+  private position: number | null = null;
+  private positionVelocity = 0;
+  private lastPositionAt: number | null = null;
+
+  constructor(settings: InputFilterSettings) {
+    this.settings = settings;
+  }
+
+  public updateSettings(settings: InputFilterSettings) {
+    this.settings = settings;
+    this.recentFrequencies = this.recentFrequencies.slice(
+      -settings.medianWindow
+    );
+  }
+
+  /** Hysteresis gate on the amplitude. */
+  public isVoiced(amplitude: number, amplitudeThreshold: number) {
+    const halfBand = this.settings.gateHysteresis / 2;
+    this.gateOpen = this.gateOpen
+      ? amplitude > amplitudeThreshold - halfBand
+      : amplitude > amplitudeThreshold + halfBand;
+    return this.gateOpen;
+  }
+
+  /**
+   * Returns the frequency to use for this frame or null when the frame is
+   * unvoiced or rejected as an outlier.
+   */
+  public filterPitch(
+    sample: PitchSample,
+    amplitudeThreshold: number,
+    minClarity: number
+  ): number | null {
+    if (
+      !this.isVoiced(sample.amplitude, amplitudeThreshold) ||
+      sample.clarity <= minClarity ||
+      sample.frequency <= 0
+    ) {
+      if (!this.gateOpen) {
+        // a new phrase starts a fresh median window
+        this.recentFrequencies = [];
+      }
+      this.pendingJump = [];
+      return null;
+    }
+    if (!this.acceptFrequency(sample.frequency)) {
+      return null;
+    }
+    this.lastFrequency = sample.frequency;
+
+    const { medianWindow } = this.settings;
+    this.recentFrequencies.push(sample.frequency);
+    if (this.recentFrequencies.length > medianWindow) {
+      this.recentFrequencies.splice(
+        0,
+        this.recentFrequencies.length - medianWindow
+      );
+    }
+    const sorted = [...this.recentFrequencies].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+
+  private acceptFrequency(frequency: number) {
+    const { rejectOctaveJumps, outlierSemitones, outlierConfirmFrames } =
+      this.settings;
+    if (this.lastFrequency === null) {
+      return true;
+    }
+    const jump = Math.abs(semitonesBetween(frequency, this.lastFrequency));
+    const isOctaveError =
+      rejectOctaveJumps && Math.abs(jump - 12) < OCTAVE_TOLERANCE_SEMITONES;
+    const isOutlier = outlierSemitones > 0 && jump > outlierSemitones;
+    if (!isOctaveError && !isOutlier) {
+      this.pendingJump = [];
+      return true;
+    }
+    // a real jump keeps landing near the same new pitch, a glitch does not
+    const last = this.pendingJump[this.pendingJump.length - 1];
+    if (
+      last !== undefined &&
+      Math.abs(semitonesBetween(frequency, last)) > OCTAVE_TOLERANCE_SEMITONES
+    ) {
+      this.pendingJump = [];
+    }
+    this.pendingJump.push(frequency);
+    if (this.pendingJump.length < Math.max(1, outlierConfirmFrames)) {
+      return false;
+    }
+    this.pendingJump = [];
+    this.recentFrequencies = [];
+    return true;
+  }
+
+  /**
+   * Smooths and rate-limits the paddle target. Without a new target the last
+   * filtered position is held so dropouts leave the paddle where the player
+   * had it rather than on the final noisy frame.
+   */
+  public filterPosition(target: number | null, now: number): number | null {
+    const dt =
+      this.lastPositionAt === null ? 0 : (now - this.lastPositionAt) / 1000;
+    this.lastPositionAt = now;
+    if (target === null) {
+      this.positionVelocity = 0;
+      return this.position;
+    }
+    if (this.position === null || dt <= 0) {
+      this.position = target;
+      return this.position;
+    }
+
+    const previous = this.position;
+    let next = target;
+    switch (this.settings.smoothing) {
+      case "none":
+        break;
+      case "exponential":
+        next = previous + this.settings.exponentialAlpha * (target - previous);
+        break;
+      case "oneEuro": {
+        const velocity = (target - previous) / dt;
+        this.positionVelocity +=
+          smoothingFactor(ONE_EURO_DERIVATIVE_CUTOFF, dt) *
+          (velocity - this.positionVelocity);
+        const cutoff =
+          this.settings.oneEuroMinCutoff +
+          this.settings.oneEuroBeta * Math.abs(this.positionVelocity);
+        next = previous + smoothingFactor(cutoff, dt) * (target - previous);
+        break;
+      }
+    }
+
+    if (this.settings.maxSpeed > 0) {
+      const maxStep = this.settings.maxSpeed * dt;
+      next = Math.min(previous + maxStep, Math.max(previous - maxStep, next));
+    }
+    this.position = next;
+    return next;
+  }
+}
+
+/**
+ * Reads stored settings, falling back to defaults for missing or bad values.
+ * Numbers are clamped to `INPUT_FILTER_LIMITS`, frame counts rounded.
+ */
+export function parseInputFilterSettings(data: unknown): InputFilterSettings {
+  const settings = { ...DEFAULT_INPUT_FILTER_SETTINGS };
+  if (typeof data !== "object" || data === null) {
+    return settings;
+  }
+  const stored = data as Record<string, unknown>;
+  for (const key of Object.keys(settings) as (keyof InputFilterSettings)[]) {
+    if (typeof stored[key] === typeof settings[key]) {
+      Object.assign(settings, { [key]: stored[key] });
+    }
+  }
+  for (const key of Object.keys(
+    INPUT_FILTER_LIMITS
+  ) as NumericFilterSetting[]) {
+    const { min, max, step } = INPUT_FILTER_LIMITS[key];
+    const value = settings[key];
+    if (!Number.isFinite(value)) {
+      settings[key] = DEFAULT_INPUT_FILTER_SETTINGS[key];
+      continue;
+    }
+    const clamped = Math.min(max, Math.max(min, value));
+    settings[key] = Number.isInteger(step) ? Math.round(clamped) : clamped;
+  }
+  if (!["none", "exponential", "oneEuro"].includes(settings.smoothing)) {
+    settings.smoothing = DEFAULT_INPUT_FILTER_SETTINGS.smoothing;
+  }
+  return settings;
+}
@@ -0,0 +1,218 @@
+import bundledLevels from "./levels/bundled.json";
+
+/**
+ * Level files are JSON. A file holds either a single level or a pack:
+ *
+ *   { "name": "My pack", "levels": [level, ...] }
+ *
+ * and a level looks like
+ *
+ *   {
+ *     "name": "Pillars",
+ *     "ballSpeed": 90,      // optional, world units per second
+ *     "paddleWidth": 60,    // optional, world units
+ *     "bricks": ["2#2##2#2", "X#.##.#X"]
+ *   }
+ *
+ * where each string is one row of bricks, one character per column:
+ *
+ *   .  (or space) empty
+ *   #  normal brick
+ *   2-9  brick that takes that many hits
+ *   X  indestructible brick
+ *   *  explosive brick, also breaks its neighbours
+ *
+ * An explosive brick that breaks destroys the bricks in the eight cells
+ * around it, multi-hit ones included however many hits they have left.
+ * Indestructible bricks survive and neighbouring explosives go off in turn.
+ */
+
+export type BrickType = "normal" | "indestructible" | "explosive";
+
+export type BrickSpec = { type: BrickType; hits: number };
+
+export type Level = {
+  name: string;
+  ballSpeed?: number;
+  paddleWidth?: number;
+  // rows of columns, null for an empty cell
+  bricks: (BrickSpec | null)[][];
+};
+
+export type LevelPack = {
+  name: string;
+  levels: Level[];
+};
+
+export const MAX_LEVEL_COLUMNS = 8;
+export const MAX_LEVEL_ROWS = 12;
+const MIN_BALL_SPEED = 30;
+const MAX_BALL_SPEED = 300;
+const MIN_PADDLE_WIDTH = 10;
+const MAX_PADDLE_WIDTH = 150;
+
+export class LevelFormatError extends Error {
+  constructor(path: string, message: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = "LevelFormatError";
+  }
+}
+
+function parseBrick(char: string, path: string): BrickSpec | null {
+  if (char === "." || char === " ") {
+    return null;
+  }
+  if (char === "#") {
+    return { type: "normal", hits: 1 };
+  }
+  if (char >= "2" && char <= "9") {
+    return { type: "normal", hits: Number(char) };
+  }
+  if (char === "X") {
+    return { type: "indestructible", hits: 1 };
+  }
+  if (char === "*") {
+    return { type: "explosive", hits: 1 };
+  }
+  throw new LevelFormatError(
+    path,
+    `unknown brick "${char}" (expected one of . # 2-9 X *)`
+  );
+}
+
+function parseOptionalNumber(
+  data: Record<string, unknown>,
+  key: string,
+  min: number,
+  max: number,
+  path: string
+): number | undefined {
+  const value = data[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new LevelFormatError(`${path}.${key}`, "must be a number");
+  }
+  if (value < min || value > max) {
+    throw new LevelFormatError(
+      `${path}.${key}`,
+      `must be between ${min} and ${max}, got ${value}`
+    );
+  }
+  return value;
+}
+
+function isObject(data: unknown): data is Record<string, unknown> {
+  return typeof data === "object" && data !== null && !Array.isArray(data);
+}
+
+export function parseLevel(data: unknown, path = "level"): Level {
+  if (!isObject(data)) {
+    throw new LevelFormatError(path, "must be an object");
+  }
+  const name = data.name ?? "Untitled";
+  if (typeof name !== "string") {
+    throw new LevelFormatError(`${path}.name`, "must be a string");
+  }
+  const rows = data.bricks;
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw new LevelFormatError(
+      `${path}.bricks`,
+      "must be a non-empty array of strings"
+    );
+  }
+  if (rows.length > MAX_LEVEL_ROWS) {
+    throw new LevelFormatError(
+      `${path}.bricks`,
+      `has ${rows.length} rows, at most ${MAX_LEVEL_ROWS} fit`
+    );
+  }
+  const bricks = rows.map((row, r) => {
+    const rowPath = `${path}.bricks[${r}]`;
+    if (typeof row !== "string") {
+      throw new LevelFormatError(rowPath, "must be a string");
+    }
+    if (row.length > MAX_LEVEL_COLUMNS) {
+      throw new LevelFormatError(
+        rowPath,
+        `has ${row.length} columns, at most ${MAX_LEVEL_COLUMNS} fit`
+      );
+    }
+    return [...row].map((char, c) =>
+      parseBrick(char, `${rowPath}, column ${c + 1}`)
+    );
+  });
+  if (
+    !bricks.some((row) =>
+      row.some((brick) => brick !== null && brick.type !== "indestructible")
+    )
+  ) {
+    throw new LevelFormatError(
+      `${path}.bricks`,
+      "needs at least one breakable brick"
+    );
+  }
+  return {
+    name,
+    ballSpeed: parseOptionalNumber(
+      data,
+      "ballSpeed",
+      MIN_BALL_SPEED,
+      MAX_BALL_SPEED,
+      path
+    ),
+    paddleWidth: parseOptionalNumber(
+      data,
+      "paddleWidth",
+      MIN_PADDLE_WIDTH,
+      MAX_PADDLE_WIDTH,
+      path
+    ),
+    bricks,
+  };
+}
+
+/** Accepts a pack, a bare array of levels or a single level. */
+export function parseLevelPack(
+  data: unknown,
+  fallbackName = "Custom levels"
+): LevelPack {
+  if (Array.isArray(data)) {
+    return parseLevelPack({ name: fallbackName, levels: data });
+  }
+  if (isObject(data) && !("levels" in data)) {
+    const level = parseLevel(data);
+    return { name: level.name, levels: [level] };
+  }
+  if (!isObject(data)) {
+    throw new LevelFormatError("", "level file must contain a JSON object");
+  }
+  const name = data.name ?? fallbackName;
+  if (typeof name !== "string") {
+    throw new LevelFormatError("name", "must be a string");
+  }
+  if (!Array.isArray(data.levels) || data.levels.length === 0) {
+    throw new LevelFormatError("levels", "must be a non-empty array");
+  }
+  return {
+    name,
+    levels: data.levels.map((level, i) => parseLevel(level, `levels[${i}]`)),
+  };
+}
+
+export async function loadLevelPackFile(file: File): Promise<LevelPack> {
+  const text = await file.text();
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new LevelFormatError(
+      file.name,
+      `not valid JSON (${(error as Error).message})`
+    );
+  }
+  return parseLevelPack(data, file.name.replace(/\.json$/i, ""));
+}
+
+export const BUNDLED_LEVEL_PACK: LevelPack = parseLevelPack(bundledLevels);
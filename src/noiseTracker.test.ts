@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { NoiseTracker } from "./noiseTracker";
+
+const calibration = {
+  minFreq: 500,
+  maxFreq: 2000,
+  voiceAmplitude: 200,
+  noiseAmplitude: 40,
+  // 80 above the noise, and between the bounds of 80 and 176
+  amplitudeThreshold: 120,
+};
+
+const FREQUENCY_PER_DATA_POINT = 48000 / 2048;
+
+/** A byte spectrum with `level(frequency)` in every bin. */
+const spectrum = (level: (frequency: number) => number) =>
+  Uint8Array.from({ length: 1024 }, (_, i) =>
+    level(i * FREQUENCY_PER_DATA_POINT)
+  );
+
+const hiss = { frequency: 0, amplitude: 40, clarity: 0.1 };
+
+function tracker(frames = 0, level: (frequency: number) => number = () => 40) {
+  const noise = new NoiseTracker(calibration, FREQUENCY_PER_DATA_POINT);
+  for (let frame = 0; frame < frames; frame++) {
+    noise.update(hiss, spectrum(level));
+  }
+  return noise;
+}
+
+// a hum around 600 Hz, in the lowest two of the eight bands
+const hum = (frequency: number) => (frequency < 700 ? 90 : 40);
+
+describe("NoiseTracker", () => {
+  it("uses the calibrated threshold until it has heard enough", () => {
+    const noise = tracker(20, hum);
+    expect(noise.thresholdFor(600)).toBe(120);
+    expect(noise.thresholdFor(1500)).toBe(120);
+  });
+
+  it("raises the threshold only in the bands the noise is in", () => {
+    const noise = tracker(60, hum);
+    // the calibrated 80 above the band's floor
+    expect(noise.thresholdFor(600)).toBe(170);
+    expect(noise.thresholdFor(1500)).toBe(120);
+    expect(noise.estimate({ ...hiss, frequency: 1500 }).tooNoisy).toBe(false);
+  });
+
+  it("keeps the threshold within the calibrated gap", () => {
+    expect(tracker(60, () => 0).thresholdFor(1000)).toBe(80);
+    expect(tracker(60, () => 150).thresholdFor(1000)).toBe(176);
+  });
+
+  it("is too noisy once most bands need more than the upper bound", () => {
+    const noise = tracker(60, (frequency) => (frequency < 1100 ? 120 : 40));
+    expect(noise.estimate(hiss).tooNoisy).toBe(true);
+  });
+
+  it("does not learn whistles as noise", () => {
+    const noise = tracker();
+    const whistle = { frequency: 1000, amplitude: 200, clarity: 0.95 };
+    const tone = spectrum((frequency) =>
+      Math.abs(frequency - 1000) < 50 ? 200 : 40
+    );
+    for (let frame = 0; frame < 60; frame++) {
+      noise.update(whistle, tone);
+    }
+    expect(noise.thresholdFor(1000)).toBe(120);
+    expect(noise.estimate(whistle)).toMatchObject({
+      level: 200,
+      threshold: 120,
+    });
+  });
+
+  it("judges a pitch by its own band, not by the loudest one", () => {
+    const noise = tracker(60, hum);
+    const whistle = { frequency: 1500, amplitude: 100, clarity: 0.95 };
+    noise.update(whistle, spectrum(hum));
+    // the hum is loud, but the whistle's band is quiet
+    expect(noise.estimate(whistle).level).toBe(40);
+    // outside the calibrated band the overall amplitude counts
+    expect(noise.estimate({ ...whistle, frequency: 3000 }).level).toBe(100);
+  });
+});
@@ -0,0 +1,142 @@
+import { CalibrationResult } from "./calibrationTypes";
+import { MIN_PITCH_CLARITY } from "./pitchDetection";
+import { PitchSample } from "./voiceControl";
+
+// frames without a tone behind the estimate, a few seconds of play
+const HISTORY_FRAMES = 240;
+// the calibrated values are used until this many frames were seen
+const MIN_HISTORY_FRAMES = 30;
+// the calibrated band is split into this many log-spaced noise bands
+const NOISE_BANDS = 8;
+// the threshold stays within these shares of the calibrated noise to voice gap
+const MIN_THRESHOLD_SHARE = 0.25;
+const MAX_THRESHOLD_SHARE = 0.85;
+// share of bands that have to be too noisy before play is affected
+const TOO_NOISY_BANDS = 0.5;
+
+export type NoiseEstimate = {
+  // median amplitude of frames without a tone, same scale as calibration
+  floor: number;
+  // per band, lowest frequency first
+  bandFloors: number[];
+  // amplitude and effective threshold in the band of the detected pitch
+  level: number;
+  threshold: number;
+  // most bands need a threshold above the safe bound, whistles get lost
+  tooNoisy: boolean;
+};
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Follows the room's noise during play. Frames without a clear tone above
+ * the threshold feed a rolling median per band, and each band's threshold
+ * keeps the calibrated margin above its floor, within safe bounds. A pitch
+ * is then judged by the level of its own band, so noise elsewhere does not
+ * count as voice. Steady tones look like whistles and are not learned.
+ */
+export class NoiseTracker {
+  private calibration: CalibrationResult;
+  private frequencyPerDataPoint: number;
+  private history: number[] = [];
+  private bandHistory: number[][] = Array.from(
+    { length: NOISE_BANDS },
+    () => []
+  );
+  private floor: number;
+  private bandFloors: number[];
+  private bandLevels: number[] = Array(NOISE_BANDS).fill(0);
+
+  constructor(calibration: CalibrationResult, frequencyPerDataPoint: number) {
+    this.calibration = calibration;
+    this.frequencyPerDataPoint = frequencyPerDataPoint;
+    this.floor = calibration.noiseAmplitude;
+    this.bandFloors = Array(NOISE_BANDS).fill(calibration.noiseAmplitude);
+  }
+
+  private bandOf(frequency: number) {
+    const { minFreq, maxFreq } = this.calibration;
+    if (frequency < minFreq || frequency > maxFreq) {
+      return null;
+    }
+    const position =
+      Math.log(frequency / minFreq) / Math.log(maxFreq / minFreq);
+    return Math.min(NOISE_BANDS - 1, Math.floor(position * NOISE_BANDS));
+  }
+
+  private get bounds() {
+    const { noiseAmplitude, voiceAmplitude } = this.calibration;
+    const gap = voiceAmplitude - noiseAmplitude;
+    return {
+      min: noiseAmplitude + gap * MIN_THRESHOLD_SHARE,
+      max: noiseAmplitude + gap * MAX_THRESHOLD_SHARE,
+    };
+  }
+
+  // the calibrated margin above `floor`, unclamped
+  private wantedThreshold(floor: number) {
+    const { amplitudeThreshold, noiseAmplitude } = this.calibration;
+    return floor + amplitudeThreshold - noiseAmplitude;
+  }
+
+  /** Threshold for a pitch at `frequency`, the overall one outside the band. */
+  public thresholdFor(frequency: number) {
+    const band = this.bandOf(frequency);
+    const floor = band === null ? this.floor : this.bandFloors[band];
+    const { min, max } = this.bounds;
+    return Math.min(max, Math.max(min, this.wantedThreshold(floor)));
+  }
+
+  // amplitude in the band of the pitch, the overall one outside the bands
+  private levelAt(pitch: PitchSample) {
+    const band = this.bandOf(pitch.frequency);
+    return band === null ? pitch.amplitude : this.bandLevels[band];
+  }
+
+  /** Feeds one frame, `spectrum` on the calibration's byte scale. */
+  public update(pitch: PitchSample, spectrum: ArrayLike<number>) {
+    this.bandLevels.fill(0);
+    for (let i = 1; i < spectrum.length; i++) {
+      const band = this.bandOf(i * this.frequencyPerDataPoint);
+      if (band !== null) {
+        this.bandLevels[band] = Math.max(this.bandLevels[band], spectrum[i]);
+      }
+    }
+    const isTone =
+      pitch.clarity >= MIN_PITCH_CLARITY &&
+      this.levelAt(pitch) > this.thresholdFor(pitch.frequency);
+    if (isTone) {
+      return;
+    }
+    this.history.push(pitch.amplitude);
+    this.bandHistory.forEach((history, band) =>
+      history.push(this.bandLevels[band])
+    );
+    if (this.history.length > HISTORY_FRAMES) {
+      this.history.shift();
+      this.bandHistory.forEach((history) => history.shift());
+    }
+    if (this.history.length >= MIN_HISTORY_FRAMES) {
+      this.floor = median(this.history);
+      this.bandFloors = this.bandHistory.map(median);
+    }
+  }
+
+  /** The state after the last `update`, judged for its pitch. */
+  public estimate(pitch: PitchSample): NoiseEstimate {
+    const { max } = this.bounds;
+    const noisyBands = this.bandFloors.filter(
+      (floor) => this.wantedThreshold(floor) > max
+    ).length;
+    return {
+      floor: this.floor,
+      bandFloors: this.bandFloors,
+      level: this.levelAt(pitch),
+      threshold: this.thresholdFor(pitch.frequency),
+      tooNoisy: noisyBands >= NOISE_BANDS * TOO_NOISY_BANDS,
+    };
+  }
+}
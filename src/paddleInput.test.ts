@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { VoiceTapDetector } from "./paddleInput";
+
+const FRAME_MS = 16;
+
+/** Feeds `[voiced, ms]` stretches frame by frame, returning when taps ended. */
+function taps(stretches: [boolean, number][]) {
+  const detector = new VoiceTapDetector();
+  const found: number[] = [];
+  let now = 0;
+  for (const [voiced, ms] of stretches) {
+    for (const end = now + ms; now < end; now += FRAME_MS) {
+      if (detector.update(voiced, now)) {
+        found.push(now);
+      }
+    }
+  }
+  return found;
+}
+
+describe("VoiceTapDetector", () => {
+  it("reports a short note after quiet", () => {
+    expect(
+      taps([
+        [false, 500],
+        [true, 160],
+        [false, 100],
+      ])
+    ).toHaveLength(1);
+  });
+
+  it("takes a tap as the very first sound", () => {
+    expect(
+      taps([
+        [true, 160],
+        [false, 100],
+      ])
+    ).toHaveLength(1);
+  });
+
+  it("ignores notes held to steer", () => {
+    expect(
+      taps([
+        [false, 500],
+        [true, 2000],
+        [false, 500],
+      ])
+    ).toEqual([]);
+  });
+
+  it("ignores short notes between steering", () => {
+    // breathing in the middle of steering, then a quick correction
+    const steering: [boolean, number][] = [
+      [true, 1000],
+      [false, 200],
+      [true, 160],
+      [false, 200],
+      [true, 1000],
+    ];
+    expect(taps(steering)).toEqual([]);
+  });
+});
@@ -0,0 +1,466 @@
+import { PitchSample, VoiceControl } from "./voiceControl";
+import { GameAction } from "./engine";
+import { MIN_PITCH_CLARITY } from "./pitchDetection";
+import { InputFilter, InputFilterSettings } from "./inputFilter";
+import { PitchMapper, PitchMappingMode } from "./pitchMapping";
+import {
+  CalibrationResult,
+  isCalibrationResultComplete,
+} from "./calibrationTypes";
+import {
+  SoundEventDetector,
+  SoundEventSettings,
+  SoundFeatures,
+} from "./soundEvents";
+import { spectrumFeatures } from "./audioAnalysis";
+import { NoiseEstimate, NoiseTracker } from "./noiseTracker";
+
+/** Engine actions plus the ones handled around the game, like pausing. */
+export type InputCommand = GameAction | "pause";
+
+/**
+ * Source of paddle movement. Polled once per frame by the game loop.
+ */
+export interface PaddleInput {
+  /** Normalized paddle target (0 = left edge, 1 = right edge) or null for no input. */
+  read(): number | null;
+  /** Raw detection behind the last read, for inputs driven by pitch. */
+  readonly lastPitch?: PitchSample | null;
+  /** Room noise as of the last read, for inputs that listen. */
+  readonly noise?: NoiseEstimate | null;
+  /** Whether the last read heard a voice, for inputs that listen. */
+  readonly voiced?: boolean;
+  /** One-off commands triggered since the previous poll. */
+  pollActions?(): InputCommand[];
+  /** Called with the game canvas once it is mounted. */
+  attach?(element: HTMLElement): void;
+  dispose(): void;
+}
+
+export type PaddleInputSource = "voice" | "keyboard" | "pointer" | "demo";
+
+export const PADDLE_INPUT_SOURCES: PaddleInputSource[] = [
+  "voice",
+  "keyboard",
+  "pointer",
+  "demo",
+];
+
+export const PADDLE_INPUT_LABEL: Record<PaddleInputSource, string> = {
+  voice: "Voice",
+  keyboard: "Keyboard",
+  pointer: "Mouse / touch",
+  demo: "Demo",
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/** Whether a key press belongs to a focused form control or button. */
+function isControlTarget(event: KeyboardEvent) {
+  const target = event.target;
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["BUTTON", "INPUT", "SELECT", "TEXTAREA"].includes(target.tagName))
+  );
+}
+
+/** Launch and fire keys, the same whatever steers the paddle. */
+function keyCommand(event: KeyboardEvent): InputCommand | null {
+  if (event.repeat || isControlTarget(event)) {
+    return null;
+  }
+  if (event.key === " ") {
+    return "launch";
+  }
+  if (event.key === "ArrowUp" || event.key === "f") {
+    return "fire";
+  }
+  return null;
+}
+
+// a tap is a note this short...
+const VOICE_TAP_MAX_MS = 250;
+// ...after at least this much quiet
+const VOICE_TAP_SILENCE_MS = 400;
+
+/**
+ * Spots voice taps, short notes on their own, which launch the ball and
+ * fire. A tap is only reported once it ends, so notes held to steer never
+ * count, and neither does picking up the voice again after a breath.
+ */
+export class VoiceTapDetector {
+  private onsetAt: number | null = null;
+  private lastVoicedAt: number | null = null;
+  private afterSilence = false;
+
+  /** True when a tap just ended. */
+  public update(voiced: boolean, now: number) {
+    if (voiced) {
+      if (this.onsetAt === null) {
+        this.onsetAt = now;
+        this.afterSilence =
+          this.lastVoicedAt === null ||
+          now - this.lastVoicedAt >= VOICE_TAP_SILENCE_MS;
+      }
+      this.lastVoicedAt = now;
+      return false;
+    }
+    if (this.onsetAt === null || this.lastVoicedAt === null) {
+      return false;
+    }
+    const tap =
+      this.afterSilence && this.lastVoicedAt - this.onsetAt <= VOICE_TAP_MAX_MS;
+    this.onsetAt = null;
+    return tap;
+  }
+}
+
+/**
+ * pitch: the fundamental of the one voice in the signal.
+ * bandPeak: the strongest tone in the calibrated band, so two players in
+ * separate bands can share a microphone.
+ */
+export type PitchDetection = "pitch" | "bandPeak";
+
+export type PaddleInputOptions = {
+  voiceControl: VoiceControl | undefined;
+  calibration: CalibrationResult | null;
+  filterSettings: InputFilterSettings;
+  mapping: PitchMappingMode;
+  soundEvents: SoundEventSettings;
+  detection?: PitchDetection;
+  // off for all but one input, or one key press would count twice
+  keyCommands?: boolean;
+};
+
+export class PitchPaddleInput implements PaddleInput {
+  private voiceControl: VoiceControl;
+  private calibration: CalibrationResult;
+  private filter: InputFilter;
+  private mapper: PitchMapper;
+  private soundEvents: SoundEventSettings;
+  private detection: PitchDetection;
+  private detector: SoundEventDetector | null;
+  private taps = new VoiceTapDetector();
+  private lastReadAt: number | null = null;
+  private actions: InputCommand[] = [];
+  private unsubscribe: (() => void) | null = null;
+  private element: HTMLElement | null = null;
+  private noiseTracker: NoiseTracker;
+  private spectrum: Uint8Array;
+  public lastPitch: PitchSample | null = null;
+  public noise: NoiseEstimate | null = null;
+  public voiced = false;
+
+  constructor(
+    voiceControl: VoiceControl,
+    calibration: CalibrationResult,
+    filterSettings: InputFilterSettings,
+    mapping: PitchMappingMode,
+    soundEvents: SoundEventSettings,
+    detection: PitchDetection = "pitch",
+    keyCommands = true
+  ) {
+    this.voiceControl = voiceControl;
+    this.calibration = calibration;
+    this.filter = new InputFilter(filterSettings);
+    this.mapper = new PitchMapper(
+      mapping,
+      calibration.minFreq,
+      calibration.maxFreq
+    );
+    this.soundEvents = soundEvents;
+    this.detection = detection;
+    this.noiseTracker = new NoiseTracker(
+      calibration,
+      voiceControl.frequencyPerDataPoint
+    );
+    this.spectrum = voiceControl.prepareByteFrequencyArray();
+    this.detector = soundEvents.enabled
+      ? new SoundEventDetector(soundEvents, calibration.amplitudeThreshold)
+      : null;
+    if (this.detector && voiceControl.analysisRate !== null) {
+      // every analysis frame, short claps can fall between animation frames
+      this.unsubscribe = voiceControl.subscribe((frame) =>
+        this.detectSoundEvent(
+          {
+            ...spectrumFeatures(
+              frame.spectrum,
+              voiceControl.frequencyPerDataPoint
+            ),
+            frequency: frame.frequency,
+            clarity: frame.clarity,
+          },
+          frame.time * 1000
+        )
+      );
+    }
+    if (keyCommands) {
+      window.addEventListener("keydown", this.onKeyDown);
+    }
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => {
+    const command = keyCommand(event);
+    if (command) {
+      this.actions.push(command);
+      event.preventDefault();
+    }
+  };
+
+  private onPress = () => {
+    this.actions.push("launch", "fire");
+  };
+
+  public attach(element: HTMLElement) {
+    this.element?.removeEventListener("pointerdown", this.onPress);
+    this.element = element;
+    element.addEventListener("pointerdown", this.onPress);
+  }
+
+  private detectSoundEvent(features: SoundFeatures, now: number) {
+    const event = this.detector?.process(features, now);
+    const command = event && this.soundEvents.bindings[event];
+    if (command && command !== "none") {
+      this.actions.push(command);
+    }
+  }
+
+  public setFilterSettings(settings: InputFilterSettings) {
+    this.filter.updateSettings(settings);
+  }
+
+  public read() {
+    const { minFreq, maxFreq } = this.calibration;
+    const pitch =
+      this.detection === "bandPeak"
+        ? this.voiceControl.getBandPeak(minFreq, maxFreq)
+        : this.voiceControl.getPitch(minFreq, maxFreq);
+    this.lastPitch = pitch;
+    this.voiceControl.getByteFrequencyData(this.spectrum);
+    this.noiseTracker.update(pitch, this.spectrum);
+    this.noise = this.noiseTracker.estimate(pitch);
+    const frequency = this.filter.filterPitch(
+      { ...pitch, amplitude: this.noise.level },
+      this.noise.threshold,
+      MIN_PITCH_CLARITY
+    );
+    this.voiced = frequency !== null;
+    const now = performance.now();
+    const dt = this.lastReadAt === null ? 0 : (now - this.lastReadAt) / 1000;
+    this.lastReadAt = now;
+    if (!this.detector) {
+      if (this.taps.update(this.voiced, now)) {
+        this.actions.push("launch", "fire");
+      }
+    } else if (!this.unsubscribe) {
+      // unbounded search, hums sit below the band the paddle listens to
+      const raw = this.voiceControl.getPitch(null, null);
+      this.detectSoundEvent(
+        {
+          ...this.voiceControl.getSpectrumFeatures(),
+          frequency: raw.frequency,
+          clarity: raw.clarity,
+        },
+        now
+      );
+    }
+    const target = this.mapper.map(frequency, dt);
+    return this.filter.filterPosition(target, now);
+  }
+
+  public pollActions() {
+    const actions = this.actions;
+    this.actions = [];
+    return actions;
+  }
+
+  public dispose() {
+    // voice control is owned by the app, only stop listening to it
+    this.unsubscribe?.();
+    window.removeEventListener("keydown", this.onKeyDown);
+    this.element?.removeEventListener("pointerdown", this.onPress);
+    this.element = null;
+  }
+}
+
+// full paddle travel per second while a key is held
+const KEYBOARD_SPEED = 1.2;
+
+export class KeyboardPaddleInput implements PaddleInput {
+  private position = 0.5;
+  private left = false;
+  private right = false;
+  private lastReadAt: number | null = null;
+  private actions: InputCommand[] = [];
+
+  constructor() {
+    window.addEventListener("keydown", this.onKeyDown);
+    window.addEventListener("keyup", this.onKeyUp);
+  }
+
+  private onKeyDown = (event: KeyboardEvent) => this.setKey(event, true);
+  private onKeyUp = (event: KeyboardEvent) => this.setKey(event, false);
+
+  private setKey(event: KeyboardEvent, pressed: boolean) {
+    const command = pressed ? keyCommand(event) : null;
+    if (command) {
+      this.actions.push(command);
+    } else if (event.key === "ArrowLeft" || event.key === "a") {
+      this.left = pressed;
+    } else if (event.key === "ArrowRight" || event.key === "d") {
+      this.right = pressed;
+    } else {
+      return;
+    }
+    event.preventDefault();
+  }
+
+  public read() {
+    const now = performance.now();
+    const elapsed = this.lastReadAt === null ? 0 : now - this.lastReadAt;
+    this.lastReadAt = now;
+    const direction = (this.right ? 1 : 0) - (this.left ? 1 : 0);
+    if (direction === 0) {
+      return null;
+    }
+    this.position = clamp01(
+      this.position + (direction * KEYBOARD_SPEED * elapsed) / 1000
+    );
+    return this.position;
+  }
+
+  public pollActions() {
+    const actions = this.actions;
+    this.actions = [];
+    return actions;
+  }
+
+  public dispose() {
+    window.removeEventListener("keydown", this.onKeyDown);
+    window.removeEventListener("keyup", this.onKeyUp);
+  }
+}
+
+export class PointerPaddleInput implements PaddleInput {
+  private element: HTMLElement | null = null;
+  private position: number | null = null;
+  private actions: InputCommand[] = [];
+
+  public attach(element: HTMLElement) {
+    this.detach();
+    this.element = element;
+    // lets touch drags move the paddle instead of scrolling the page
+    element.style.touchAction = "none";
+    element.addEventListener("pointermove", this.onPointer);
+    element.addEventListener("pointerdown", this.onPointer);
+    element.addEventListener("pointerdown", this.onPress);
+  }
+
+  private onPointer = (event: PointerEvent) => {
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    this.position = clamp01((event.clientX - rect.left) / rect.width);
+  };
+
+  private onPress = () => {
+    this.actions.push("launch", "fire");
+  };
+
+  private detach() {
+    this.element?.removeEventListener("pointermove", this.onPointer);
+    this.element?.removeEventListener("pointerdown", this.onPointer);
+    this.element?.removeEventListener("pointerdown", this.onPress);
+    this.element = null;
+  }
+
+  public read() {
+    return this.position;
+  }
+
+  public pollActions() {
+    const actions = this.actions;
+    this.actions = [];
+    return actions;
+  }
+
+  public dispose() {
+    this.detach();
+  }
+}
+
+/**
+ * Plays back a fixed sequence of targets, one per read. The last value is
+ * held once the script runs out.
+ */
+export class ScriptedPaddleInput implements PaddleInput {
+  private script: (number | null)[];
+  private index = 0;
+
+  constructor(script: (number | null)[]) {
+    this.script = script;
+  }
+
+  public read() {
+    if (this.script.length === 0) {
+      return null;
+    }
+    const value = this.script[Math.min(this.index, this.script.length - 1)];
+    this.index++;
+    return value;
+  }
+
+  public dispose() {}
+}
+
+export function sweepScript(frames: number, periodFrames = 240) {
+  return Array.from(
+    { length: frames },
+    (_, i) => 0.5 + 0.5 * Math.sin((2 * Math.PI * i) / periodFrames)
+  );
+}
+
+export function isPaddleInputAvailable(
+  source: PaddleInputSource,
+  { voiceControl, calibration }: PaddleInputOptions
+) {
+  return (
+    source !== "voice" ||
+    (!!voiceControl && isCalibrationResultComplete(calibration))
+  );
+}
+
+export function createPaddleInput(
+  source: PaddleInputSource,
+  {
+    voiceControl,
+    calibration,
+    filterSettings,
+    mapping,
+    soundEvents,
+    detection,
+    keyCommands,
+  }: PaddleInputOptions
+): PaddleInput {
+  switch (source) {
+    case "voice":
+      if (!voiceControl || !isCalibrationResultComplete(calibration)) {
+        throw new Error("Voice input needs a microphone and calibration");
+      }
+      return new PitchPaddleInput(
+        voiceControl,
+        calibration,
+        filterSettings,
+        mapping,
+        soundEvents,
+        detection,
+        keyCommands
+      );
+    case "keyboard":
+      return new KeyboardPaddleInput();
+    case "pointer":
+      return new PointerPaddleInput();
+    case "demo":
+      return new ScriptedPaddleInput(sweepScript(60 * 60 * 10));
+  }
+}
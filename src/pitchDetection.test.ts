@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { detectPitch, MIN_PITCH_CLARITY } from "./pitchDetection";
+
+const SAMPLE_RATE = 48000;
+// what the analyser hands over, about 43 ms
+const BUFFER_SIZE = 2048;
+
+/** Sum of harmonics of `frequency`, `amplitudes[0]` being the fundamental's. */
+function tone(frequency: number, amplitudes = [0.5]) {
+  const samples = new Float32Array(BUFFER_SIZE);
+  for (let i = 0; i < samples.length; i++) {
+    const time = i / SAMPLE_RATE;
+    samples[i] = amplitudes.reduce(
+      (sum, amplitude, harmonic) =>
+        sum +
+        amplitude * Math.sin(2 * Math.PI * frequency * (harmonic + 1) * time),
+      0
+    );
+  }
+  return samples;
+}
+
+/** Repeatable white noise, the fractional part of a sine hash. */
+function noise(amplitude: number, seed = 1) {
+  return Float32Array.from({ length: BUFFER_SIZE }, (_, i) => {
+    const hash = Math.sin((i + 1) * 12.9898 + seed * 78.233) * 43758.5453;
+    return amplitude * (2 * (hash - Math.floor(hash)) - 1);
+  });
+}
+
+const mix = (a: Float32Array, b: Float32Array) =>
+  a.map((value, i) => value + b[i]);
+
+/**
+ * A whistle: a nearly pure tone with a slow wobble of a few cents, a faint
+ * second harmonic and breath noise.
+ */
+function whistle(frequency: number) {
+  const samples = new Float32Array(BUFFER_SIZE);
+  let phase = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const wobble = 1 + 0.003 * Math.sin((2 * Math.PI * 5 * i) / SAMPLE_RATE);
+    phase += (2 * Math.PI * frequency * wobble) / SAMPLE_RATE;
+    samples[i] = 0.4 * Math.sin(phase) + 0.05 * Math.sin(2 * phase);
+  }
+  return mix(samples, noise(0.05));
+}
+
+describe("detectPitch", () => {
+  it.each([100, 220, 440, 1000, 2500])("finds a %i Hz sine", (frequency) => {
+    const { frequency: found, clarity } = detectPitch(
+      tone(frequency),
+      SAMPLE_RATE
+    );
+    expect(Math.abs(found - frequency) / frequency).toBeLessThan(0.002);
+    expect(clarity).toBeGreaterThan(0.95);
+  });
+
+  it.each([600, 1200, 2000])("follows a %i Hz whistle", (frequency) => {
+    const { frequency: found, clarity } = detectPitch(
+      whistle(frequency),
+      SAMPLE_RATE
+    );
+    expect(Math.abs(found - frequency) / frequency).toBeLessThan(0.01);
+    expect(clarity).toBeGreaterThanOrEqual(MIN_PITCH_CLARITY);
+  });
+
+  it("takes the fundamental under strong harmonics, not an octave up", () => {
+    const { frequency } = detectPitch(tone(200, [0.2, 0.5, 0.3]), SAMPLE_RATE);
+    expect(Math.abs(frequency - 200) / 200).toBeLessThan(0.01);
+  });
+
+  it("does not drop an octave below a clean tone", () => {
+    // the period doubled is a dip too, the first one has to win
+    const { frequency } = detectPitch(tone(300), SAMPLE_RATE);
+    expect(Math.abs(frequency - 300) / 300).toBeLessThan(0.01);
+  });
+
+  it("searches only the given range", () => {
+    const { frequency, clarity } = detectPitch(tone(1000), SAMPLE_RATE, {
+      minFreq: 1500,
+      maxFreq: 3000,
+    });
+    expect(frequency).toBeGreaterThan(1400);
+    expect(clarity).toBeLessThan(MIN_PITCH_CLARITY);
+  });
+
+  it("reports silence as no pitch", () => {
+    expect(detectPitch(new Float32Array(BUFFER_SIZE), SAMPLE_RATE)).toEqual({
+      frequency: 0,
+      clarity: 0,
+    });
+    expect(detectPitch(noise(0.0005), SAMPLE_RATE).frequency).toBe(0);
+  });
+
+  it("gives noise too little clarity to count", () => {
+    for (const seed of [1, 2, 3]) {
+      const { clarity } = detectPitch(noise(0.3, seed), SAMPLE_RATE);
+      expect(clarity).toBeLessThan(MIN_PITCH_CLARITY);
+    }
+  });
+});
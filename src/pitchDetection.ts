@@ -0,0 +1,129 @@
+export type PitchEstimate = {
+  // Hz, 0 when nothing periodic was found
+  frequency: number;
+  // 0..1, how periodic the signal is (1 - YIN aperiodicity)
+  clarity: number;
+};
+
+export type PitchDetectorOptions = {
+  minFreq?: number;
+  maxFreq?: number;
+  // YIN absolute threshold on the cumulative mean normalized difference
+  threshold?: number;
+  // below this RMS the buffer is treated as silence
+  silenceRms?: number;
+};
+
+export const DEFAULT_MIN_FREQ = 80;
+export const DEFAULT_MAX_FREQ = 6000;
+export const DEFAULT_YIN_THRESHOLD = 0.15;
+export const DEFAULT_SILENCE_RMS = 0.001;
+export const MIN_PITCH_CLARITY = 0.8;
+// factor the search reaches past a band, a note just outside it then lands
+// on the edge instead of being taken for a subharmonic
+const BAND_SEARCH_MARGIN = 1.25;
+
+export type FrequencyBand = { minFreq: number; maxFreq: number };
+
+/** Options searching around a calibrated band, on every detection path. */
+export function bandSearchOptions({
+  minFreq,
+  maxFreq,
+}: FrequencyBand): PitchDetectorOptions {
+  return {
+    minFreq: minFreq / BAND_SEARCH_MARGIN,
+    maxFreq: maxFreq * BAND_SEARCH_MARGIN,
+  };
+}
+
+const NO_PITCH: PitchEstimate = { frequency: 0, clarity: 0 };
+
+/**
+ * YIN fundamental frequency estimator (de Cheveigné & Kawahara, 2002) with
+ * parabolic interpolation around the chosen lag.
+ *
+ * Pure function over time-domain samples so it can run anywhere (main thread,
+ * worklet, tests).
+ */
+export function detectPitch(
+  samples: Float32Array,
+  sampleRate: number,
+  options: PitchDetectorOptions = {}
+): PitchEstimate {
+  const {
+    minFreq = DEFAULT_MIN_FREQ,
+    maxFreq = DEFAULT_MAX_FREQ,
+    threshold = DEFAULT_YIN_THRESHOLD,
+    silenceRms = DEFAULT_SILENCE_RMS,
+  } = options;
+
+  const windowSize = Math.floor(samples.length / 2);
+  const tauMin = Math.max(2, Math.floor(sampleRate / maxFreq));
+  const tauMax = Math.min(windowSize - 1, Math.ceil(sampleRate / minFreq));
+  if (tauMin >= tauMax) {
+    return NO_PITCH;
+  }
+
+  let energy = 0;
+  for (let i = 0; i < samples.length; i++) {
+    energy += samples[i] * samples[i];
+  }
+  if (Math.sqrt(energy / samples.length) < silenceRms) {
+    return NO_PITCH;
+  }
+
+  // difference function followed by cumulative mean normalization
+  const cmnd = new Float32Array(tauMax + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let sum = 0;
+    for (let i = 0; i < windowSize; i++) {
+      const delta = samples[i] - samples[i + tau];
+      sum += delta * delta;
+    }
+    runningSum += sum;
+    cmnd[tau] = runningSum === 0 ? 1 : (sum * tau) / runningSum;
+  }
+
+  // first dip below the threshold, walked down to its local minimum
+  let bestTau = -1;
+  for (let tau = tauMin; tau <= tauMax; tau++) {
+    if (cmnd[tau] < threshold) {
+      while (tau + 1 <= tauMax && cmnd[tau + 1] < cmnd[tau]) {
+        tau++;
+      }
+      bestTau = tau;
+      break;
+    }
+  }
+  // no confident dip - fall back to the global minimum with its (low) clarity
+  if (bestTau === -1) {
+    bestTau = tauMin;
+    for (let tau = tauMin + 1; tau <= tauMax; tau++) {
+      if (cmnd[tau] < cmnd[bestTau]) {
+        bestTau = tau;
+      }
+    }
+  }
+
+  const refinedTau = parabolicInterpolation(cmnd, bestTau);
+  return {
+    frequency: sampleRate / refinedTau,
+    clarity: Math.min(1, Math.max(0, 1 - cmnd[bestTau])),
+  };
+}
+
+function parabolicInterpolation(values: Float32Array, index: number): number {
+  if (index <= 0 || index >= values.length - 1) {
+    return index;
+  }
+  const left = values[index - 1];
+  const center = values[index];
+  const right = values[index + 1];
+  const denominator = left - 2 * center + right;
+  if (denominator === 0) {
+    return index;
+  }
+  return index + (left - right) / (2 * denominator);
+}
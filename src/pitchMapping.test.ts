@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  frequencyForPosition,
+  PitchMapper,
+  PitchMappingMode,
+} from "./pitchMapping";
+
+const MIN_FREQ = 500;
+const MAX_FREQ = 2000;
+
+const mapper = (mode: PitchMappingMode) =>
+  new PitchMapper(mode, MIN_FREQ, MAX_FREQ);
+
+describe("absolute mappings", () => {
+  it.each<PitchMappingMode>(["linear", "log"])(
+    "%s is undone by frequencyForPosition",
+    (mode) => {
+      for (const position of [0, 0.1, 0.5, 0.75, 1]) {
+        const frequency = frequencyForPosition(
+          mode,
+          MIN_FREQ,
+          MAX_FREQ,
+          position
+        );
+        expect(frequency).not.toBeNull();
+        expect(mapper(mode).map(frequency, 0)).toBeCloseTo(position);
+      }
+    }
+  );
+
+  it("puts the middle of the range in Hz or in semitones at the centre", () => {
+    expect(mapper("linear").map(1250, 0)).toBeCloseTo(0.5);
+    // an octave above the bottom of a two-octave range
+    expect(mapper("log").map(1000, 0)).toBeCloseTo(0.5);
+  });
+
+  it("clamps pitches outside the range to the edges", () => {
+    expect(mapper("linear").map(300, 0)).toBe(0);
+    expect(mapper("log").map(4000, 0)).toBe(1);
+  });
+
+  it("gives no target without a pitch", () => {
+    expect(mapper("log").map(null, 0)).toBeNull();
+  });
+});
+
+describe("relative mappings", () => {
+  it.each<PitchMappingMode>(["velocity", "twoTone"])(
+    "%s has no fixed frequency per position",
+    (mode) => {
+      expect(frequencyForPosition(mode, MIN_FREQ, MAX_FREQ, 0.5)).toBeNull();
+    }
+  );
+
+  it("velocity holds still around the centre note", () => {
+    const velocity = mapper("velocity");
+    // a quarter of a semitone above the centre, 1000 Hz
+    expect(velocity.map(1000 * 2 ** (0.25 / 12), 1)).toBe(0.5);
+  });
+
+  it("velocity moves faster the further the pitch is from the centre", () => {
+    const near = mapper("velocity").map(1200, 0.1)!;
+    const far = mapper("velocity").map(1800, 0.1)!;
+    expect(near).toBeGreaterThan(0.5);
+    expect(far).toBeGreaterThan(near);
+    expect(mapper("velocity").map(600, 0.1)).toBeLessThan(0.5);
+  });
+
+  it("velocity keeps its position between frames and stops at the edge", () => {
+    const velocity = mapper("velocity");
+    let position = 0.5;
+    for (let frame = 0; frame < 120; frame++) {
+      position = velocity.map(MAX_FREQ, 1 / 60)!;
+    }
+    expect(position).toBe(1);
+    expect(velocity.map(null, 1 / 60)).toBeNull();
+    expect(velocity.map(1000, 1 / 60)).toBe(1);
+  });
+
+  it("two tones move left below the centre and right above it", () => {
+    const twoTone = mapper("twoTone");
+    expect(twoTone.map(600, 0.1)).toBeCloseTo(0.4);
+    expect(twoTone.map(1900, 0.2)).toBeCloseTo(0.6);
+  });
+});
@@ -0,0 +1,118 @@
+export type PitchMappingMode = "linear" | "log" | "velocity" | "twoTone";
+
+export const PITCH_MAPPING_MODES: PitchMappingMode[] = [
+  "linear",
+  "log",
+  "velocity",
+  "twoTone",
+];
+
+export const PITCH_MAPPING_LABEL: Record<PitchMappingMode, string> = {
+  linear: "Absolute, linear Hz",
+  log: "Absolute, semitone scale",
+  velocity: "Velocity around centre note",
+  twoTone: "Two tones (low = left, high = right)",
+};
+
+export const DEFAULT_PITCH_MAPPING: PitchMappingMode = "linear";
+
+// semitones around the centre note that do not move the paddle
+const VELOCITY_DEAD_ZONE = 0.5;
+// paddle travel at full deflection, in full widths per second
+const VELOCITY_MAX_SPEED = 1.5;
+const TWO_TONE_SPEED = 1;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+export function isPitchMappingMode(value: unknown): value is PitchMappingMode {
+  return PITCH_MAPPING_MODES.includes(value as PitchMappingMode);
+}
+
+/** Whether the mode maps each pitch to a fixed paddle position. */
+export function isAbsoluteMapping(mode: PitchMappingMode) {
+  return mode === "linear" || mode === "log";
+}
+
+/**
+ * Frequency that puts the paddle at `position` (0..1), null for the relative
+ * modes where pitch does not map to a fixed place.
+ */
+export function frequencyForPosition(
+  mode: PitchMappingMode,
+  minFreq: number,
+  maxFreq: number,
+  position: number
+): number | null {
+  switch (mode) {
+    case "linear":
+      return minFreq + position * (maxFreq - minFreq);
+    case "log":
+      return minFreq * (maxFreq / minFreq) ** position;
+    case "velocity":
+    case "twoTone":
+      return null;
+  }
+}
+
+/**
+ * Turns detected frequencies into a normalized paddle target (0..1).
+ * Absolute modes map pitch straight to a position, relative modes integrate
+ * a velocity and so keep their own position between frames.
+ */
+export class PitchMapper {
+  private mode: PitchMappingMode;
+  private minFreq: number;
+  private maxFreq: number;
+  private position = 0.5;
+
+  constructor(mode: PitchMappingMode, minFreq: number, maxFreq: number) {
+    this.mode = mode;
+    this.minFreq = minFreq;
+    this.maxFreq = maxFreq;
+  }
+
+  private get centreFreq() {
+    // geometric mean - the middle of the range in semitones
+    return Math.sqrt(this.minFreq * this.maxFreq);
+  }
+
+  private get halfRangeSemitones() {
+    return 6 * Math.log2(this.maxFreq / this.minFreq);
+  }
+
+  /** `dt` is the time since the previous call, in seconds. */
+  public map(frequency: number | null, dt: number): number | null {
+    if (frequency === null) {
+      return null;
+    }
+    const { minFreq, maxFreq } = this;
+    switch (this.mode) {
+      case "linear":
+        return clamp((frequency - minFreq) / (maxFreq - minFreq), 0, 1);
+      case "log":
+        return clamp(
+          Math.log(frequency / minFreq) / Math.log(maxFreq / minFreq),
+          0,
+          1
+        );
+      case "velocity": {
+        const offset = 12 * Math.log2(frequency / this.centreFreq);
+        if (Math.abs(offset) < VELOCITY_DEAD_ZONE) {
+          return this.position;
+        }
+        const deflection = clamp(offset / this.halfRangeSemitones, -1, 1);
+        return this.move(deflection * VELOCITY_MAX_SPEED * dt);
+      }
+      case "twoTone": {
+        const direction = frequency < this.centreFreq ? -1 : 1;
+        return this.move(direction * TWO_TONE_SPEED * dt);
+      }
+    }
+  }
+
+  private move(delta: number) {
+    this.position = clamp(this.position + delta, 0, 1);
+    return this.position;
+  }
+}
@@ -0,0 +1,87 @@
+import { nextFloat, Rng } from "./random";
+
+export type PowerUpKind =
+  | "multiball"
+  | "wide"
+  | "shrink"
+  | "slow"
+  | "sticky"
+  | "laser"
+  | "extraLife";
+
+// power-ups that last for a while, the rest apply once when caught
+export type TimedPowerUp = "wide" | "shrink" | "slow" | "sticky" | "laser";
+
+export const TIMED_POWER_UPS: TimedPowerUp[] = [
+  "wide",
+  "shrink",
+  "slow",
+  "sticky",
+  "laser",
+];
+
+export function isTimedPowerUp(kind: PowerUpKind): kind is TimedPowerUp {
+  return (TIMED_POWER_UPS as PowerUpKind[]).includes(kind);
+}
+
+export const POWER_UP_DURATION_SECONDS: Record<TimedPowerUp, number> = {
+  wide: 15,
+  shrink: 10,
+  slow: 10,
+  sticky: 15,
+  laser: 10,
+};
+
+// relative drop odds, shrink is a penalty so it is kept rare
+const POWER_UP_WEIGHT: Record<PowerUpKind, number> = {
+  multiball: 3,
+  wide: 3,
+  shrink: 1,
+  slow: 2,
+  sticky: 2,
+  laser: 2,
+  extraLife: 1,
+};
+
+export const POWER_UP_LABEL: Record<PowerUpKind, string> = {
+  multiball: "M",
+  wide: "W",
+  shrink: "S",
+  slow: "O",
+  sticky: "G",
+  laser: "L",
+  extraLife: "+",
+};
+
+export const POWER_UP_NAME: Record<PowerUpKind, string> = {
+  multiball: "Multiball",
+  wide: "Wide",
+  shrink: "Shrink",
+  slow: "Slow",
+  sticky: "Sticky",
+  laser: "Laser",
+  extraLife: "Extra life",
+};
+
+export const POWER_UP_COLOR: Record<PowerUpKind, string> = {
+  multiball: "#1E90FF",
+  wide: "#32CD32",
+  shrink: "#B22222",
+  slow: "#FFD700",
+  sticky: "#BA55D3",
+  laser: "#FF4500",
+  extraLife: "#FF69B4",
+};
+
+export function randomPowerUp(rng: Rng): PowerUpKind {
+  const entries = Object.entries(POWER_UP_WEIGHT) as [PowerUpKind, number][];
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let pick = nextFloat(rng) * total;
+  for (const [kind, weight] of entries) {
+    pick -= weight;
+    if (pick < 0) {
+      return kind;
+    }
+  }
+  return entries[entries.length - 1][0];
+}
@@ -0,0 +1,22 @@
+/**
+ * Seedable PRNG (mulberry32). The whole generator state is a single number
+ * so it can live inside plain, serializable game state.
+ */
+export type Rng = { state: number };
+
+export function createRng(seed: number): Rng {
+  return { state: seed >>> 0 };
+}
+
+/** Uniform float in [0, 1). */
+export function nextFloat(rng: Rng): number {
+  rng.state = (rng.state + 0x6d2b79f5) >>> 0;
+  let t = rng.state;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function nextRange(rng: Rng, min: number, max: number): number {
+  return min + nextFloat(rng) * (max - min);
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { createGame, tick } from "./engine";
+import {
+  loadRecordingFile,
+  matchesRecording,
+  RECORDING_FORMAT_VERSION,
+  replayInput,
+} from "./recording";
+// played to game over by the engines that wrote versions 3 and 4
+import version3 from "./fixtures/v3.recording.json?raw";
+import version4 from "./fixtures/v4.recording.json?raw";
+
+const levels = [{ name: "Test", bricks: [[{ type: "normal", hits: 1 }]] }];
+
+const paddleX = 112.5;
+
+const file = (data: unknown) =>
+  new File([JSON.stringify(data)], "test.recording.json");
+
+describe("loadRecordingFile", () => {
+  it("upgrades single-paddle recordings without mode and difficulty", async () => {
+    const recording = await loadRecordingFile(
+      file({
+        version: 3,
+        createdAt: 0,
+        seed: 1,
+        inputSource: "keyboard",
+        calibration: null,
+        levels,
+        options: { lives: 3 },
+        ticks: [
+          { input: { target: 0.5 }, pitch: null, paddleX, ballX: 1, ballY: 2 },
+        ],
+      })
+    );
+    expect(recording.version).toBe(RECORDING_FORMAT_VERSION);
+    expect(recording.options).toEqual({
+      lives: 3,
+      mode: "single",
+      difficulty: "off",
+    });
+    expect(recording.ticks[0].paddleX).toEqual([paddleX]);
+  });
+
+  it("rejects versions from before lives and the serve", async () => {
+    await expect(
+      loadRecordingFile(file({ version: 2, seed: 1, levels, ticks: [] }))
+    ).rejects.toThrow("unsupported recording version 2");
+  });
+});
+
+describe.each([
+  ["3", version3, { score: 2, tick: 995 }],
+  ["4", version4, { score: 1, tick: 950 }],
+])("a version %s recording", (_, text, result) => {
+  it("replays to the recorded end", async () => {
+    const recording = await loadRecordingFile(
+      new File([text], "old.recording.json")
+    );
+    const state = createGame(
+      recording.seed,
+      recording.levels,
+      recording.options
+    );
+    let input = replayInput(recording, state.tick);
+    while (input) {
+      tick(state, input);
+      expect(matchesRecording(recording, state.tick - 1, state)).toBe(true);
+      input = replayInput(recording, state.tick);
+    }
+    expect(state.phase).toBe("gameOver");
+    expect(state.score).toBe(result.score);
+    expect(state.tick).toBe(result.tick);
+  });
+});
@@ -0,0 +1,161 @@
+import { CalibrationResult } from "./calibrationTypes";
+import { EngineInput, GameOptions, GameState } from "./engine";
+import { Level } from "./levels";
+import { PitchSample } from "./voiceControl";
+
+export type RecordedTick = {
+  input: EngineInput;
+  // raw detection the input was derived from, null for non-voice sources
+  pitch: PitchSample | null;
+  // state after the tick, used to detect replay desyncs
+  // one per player
+  paddleX: number[];
+  // first ball in play, null once the last one is lost
+  ballX: number | null;
+  ballY: number | null;
+};
+
+export type Recording = {
+  version: number;
+  createdAt: number;
+  seed: number;
+  inputSource: string;
+  calibration: CalibrationResult | null;
+  levels: Level[];
+  options: GameOptions;
+  ticks: RecordedTick[];
+};
+
+export const RECORDING_FORMAT_VERSION = 5;
+// versions 1 and 2 predate lives and the serve countdown and cannot be
+// replayed by this engine, later ones are upgraded on load
+const OLDEST_SUPPORTED_VERSION = 3;
+
+export class RecordingFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RecordingFormatError";
+  }
+}
+
+export class GameRecorder {
+  private recording: Recording;
+
+  constructor(
+    seed: number,
+    levels: Level[],
+    options: GameOptions,
+    inputSource: string,
+    calibration: CalibrationResult | null
+  ) {
+    this.recording = {
+      version: RECORDING_FORMAT_VERSION,
+      createdAt: Date.now(),
+      seed,
+      inputSource,
+      calibration,
+      levels,
+      options,
+      ticks: [],
+    };
+  }
+
+  public record(
+    state: GameState,
+    input: EngineInput,
+    pitch: PitchSample | null
+  ) {
+    this.recording.ticks.push({
+      input,
+      pitch,
+      paddleX: state.paddles.map((paddle) => paddle.x),
+      ballX: state.balls[0]?.x ?? null,
+      ballY: state.balls[0]?.y ?? null,
+    });
+  }
+
+  public get recorded(): Recording {
+    return this.recording;
+  }
+}
+
+/** Input the replay should feed into tick number `tick`, null once it ends. */
+export function replayInput(
+  recording: Recording,
+  tick: number
+): EngineInput | null {
+  return recording.ticks[tick]?.input ?? null;
+}
+
+/** Whether the replayed state after `tick` matches what was recorded. */
+export function matchesRecording(
+  recording: Recording,
+  tick: number,
+  state: GameState
+) {
+  const recorded = recording.ticks[tick];
+  return (
+    recorded !== undefined &&
+    recorded.paddleX.every((x, player) => state.paddles[player]?.x === x) &&
+    recorded.ballX === (state.balls[0]?.x ?? null) &&
+    recorded.ballY === (state.balls[0]?.y ?? null)
+  );
+}
+
+export function recordingFileName(recording: Recording) {
+  const date = new Date(recording.createdAt).toISOString().replace(/:/g, "-");
+  return `voice-arkanoid-${date}.recording.json`;
+}
+
+/**
+ * Fills in what older versions did not record, in place. Version 3 had a
+ * single paddle and no play mode, version 4 no difficulty; both played as
+ * today's single player with the difficulty off.
+ */
+function upgradeRecording(data: Partial<Recording>) {
+  if (typeof data.options === "object" && data.options !== null) {
+    data.options.mode ??= "single";
+    data.options.difficulty ??= "off";
+  }
+  if (Array.isArray(data.ticks)) {
+    data.ticks = data.ticks.map((tick) => {
+      const paddleX = tick?.paddleX as number | number[];
+      return typeof paddleX === "number"
+        ? { ...tick, paddleX: [paddleX] }
+        : tick;
+    });
+  }
+  data.version = RECORDING_FORMAT_VERSION;
+}
+
+export async function loadRecordingFile(file: File): Promise<Recording> {
+  let data: Partial<Recording>;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new RecordingFormatError(`${file.name} is not valid JSON`);
+  }
+  const version = data?.version;
+  if (
+    typeof version !== "number" ||
+    version < OLDEST_SUPPORTED_VERSION ||
+    version > RECORDING_FORMAT_VERSION
+  ) {
+    throw new RecordingFormatError(
+      `${file.name}: unsupported recording version ${String(version)}`
+    );
+  }
+  upgradeRecording(data);
+  if (
+    typeof data.seed !== "number" ||
+    !Array.isArray(data.levels) ||
+    data.levels.length === 0 ||
+    typeof data.options?.lives !== "number" ||
+    typeof data.options.mode !== "string" ||
+    typeof data.options.difficulty !== "string" ||
+    !Array.isArray(data.ticks)
+  ) {
+    throw new RecordingFormatError(`${file.name}: recording is incomplete`);
+  }
+  return data as Recording;
+}
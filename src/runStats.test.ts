@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { createGame, TICK_SECONDS } from "./engine";
+import { parseLevel } from "./levels";
+import { NoiseEstimate } from "./noiseTracker";
+import { RunStatsCollector } from "./runStats";
+
+const state = createGame(1, [parseLevel({ name: "Test", bricks: ["#"] })]);
+
+const noise = (level: number, threshold: number): NoiseEstimate => ({
+  floor: 40,
+  bandFloors: [40],
+  level,
+  threshold,
+  tooNoisy: false,
+});
+
+describe("RunStatsCollector", () => {
+  it("counts voice time by the noise tracker's level and threshold", () => {
+    const stats = new RunStatsCollector();
+    // loud overall, but the whistle's band is below its raised threshold
+    const pitch = { frequency: 1000, amplitude: 200, clarity: 0.95 };
+    stats.record(state, pitch, noise(120, 150), []);
+    // quiet overall, but clear of the threshold in its band
+    const quiet = { frequency: 1100, amplitude: 90, clarity: 0.95 };
+    stats.record(state, quiet, noise(90, 70), []);
+    expect(stats.stats.voiceActiveSeconds).toBeCloseTo(TICK_SECONDS);
+  });
+
+  it("leaves voice stats out of runs without voice", () => {
+    const stats = new RunStatsCollector();
+    stats.record(state, null, null, []);
+    expect(stats.stats.voiceActiveSeconds).toBe(0);
+    expect(stats.stats.jitterSemitones).toBeNull();
+    expect(stats.stats.durationSeconds).toBeCloseTo(TICK_SECONDS);
+  });
+});
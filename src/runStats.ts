@@ -0,0 +1,90 @@
+import { GameEvent, GameState, TICK_SECONDS } from "./engine";
+import { MIN_PITCH_CLARITY } from "./pitchDetection";
+import { NoiseEstimate } from "./noiseTracker";
+import { PitchSample } from "./voiceControl";
+
+export type RunStats = {
+  score: number;
+  levelReached: number;
+  durationSeconds: number;
+  bricksBroken: number;
+  paddleHits: number;
+  // time the voice was above the noise tracker's threshold in its band,
+  // as when it moves the paddle
+  voiceActiveSeconds: number;
+  // mean pitch change between consecutive voiced frames, in semitones;
+  // null for runs without voice input
+  jitterSemitones: number | null;
+};
+
+/**
+ * Accumulates statistics tick by tick. Pitch samples are shared by all the
+ * ticks of a frame, so jitter only looks at samples it has not seen yet.
+ */
+export class RunStatsCollector {
+  private score = 0;
+  private level = 1;
+  private ticks = 0;
+  private voiceTicks = 0;
+  private bricksBroken = 0;
+  private paddleHits = 0;
+  private lastPitch: PitchSample | null = null;
+  private lastVoicedFrequency: number | null = null;
+  private jitterSum = 0;
+  private jitterCount = 0;
+
+  /** `pitch` and `noise` are null when the run is not voice controlled. */
+  public record(
+    state: GameState,
+    pitch: PitchSample | null,
+    noise: NoiseEstimate | null,
+    events: GameEvent[]
+  ) {
+    this.score = state.score;
+    this.level = state.level;
+    this.ticks += 1;
+    for (const event of events) {
+      if (event.type === "brick") {
+        this.bricksBroken += 1;
+      } else if (event.type === "paddle") {
+        this.paddleHits += 1;
+      }
+    }
+    if (pitch === null || noise === null) {
+      return;
+    }
+    const voiced = noise.level > noise.threshold;
+    if (voiced) {
+      this.voiceTicks += 1;
+    }
+    if (pitch === this.lastPitch) {
+      return;
+    }
+    this.lastPitch = pitch;
+    if (!voiced || pitch.clarity <= MIN_PITCH_CLARITY || pitch.frequency <= 0) {
+      // jitter is measured within phrases, not across the gaps
+      this.lastVoicedFrequency = null;
+      return;
+    }
+    if (this.lastVoicedFrequency !== null) {
+      this.jitterSum += Math.abs(
+        12 * Math.log2(pitch.frequency / this.lastVoicedFrequency)
+      );
+      this.jitterCount += 1;
+    }
+    this.lastVoicedFrequency = pitch.frequency;
+  }
+
+  public get stats(): RunStats {
+    return {
+      score: this.score,
+      levelReached: this.level,
+      durationSeconds: this.ticks * TICK_SECONDS,
+      bricksBroken: this.bricksBroken,
+      paddleHits: this.paddleHits,
+      voiceActiveSeconds: this.voiceTicks * TICK_SECONDS,
+      jitterSemitones:
+        this.jitterCount > 0 ? this.jitterSum / this.jitterCount : null,
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SOUND_EVENT_SETTINGS,
+  learnSoundEvent,
+  SoundEventDetector,
+  SoundEventKind,
+  SoundEventSettings,
+  SoundTemplate,
+} from "./soundEvents";
+
+const THRESHOLD = 50;
+const FRAME_MS = 10;
+
+const settings = (changes: Partial<SoundEventSettings> = {}) => ({
+  ...DEFAULT_SOUND_EVENT_SETTINGS,
+  enabled: true,
+  ...changes,
+});
+
+/** Feeds one sound with `sound`'s features and the quiet after it. */
+function play(
+  detector: SoundEventDetector,
+  sound: SoundTemplate,
+  start = 0
+): SoundEventKind[] {
+  const events: SoundEventKind[] = [];
+  const quiet = {
+    level: 0,
+    centroid: 0,
+    flatness: 0,
+    frequency: 0,
+    clarity: 0,
+  };
+  const loud = {
+    level: 2 * THRESHOLD,
+    centroid: sound.centroid,
+    flatness: sound.flatness,
+    frequency: sound.frequency,
+    clarity: sound.frequency > 0 ? 0.95 : 0.2,
+  };
+  const end = start + sound.durationMs + 200;
+  for (let now = start; now <= end; now += FRAME_MS) {
+    const features = now <= start + sound.durationMs ? loud : quiet;
+    const event = detector.process(features, now);
+    if (event) {
+      events.push(event);
+    }
+  }
+  return events;
+}
+
+const burst = { durationMs: 180, centroid: 900, flatness: 0.2, frequency: 150 };
+const clap = { durationMs: 60, centroid: 3000, flatness: 0.5, frequency: 0 };
+
+describe("SoundEventDetector", () => {
+  it("tells bursts from claps by the built-in templates", () => {
+    const detector = new SoundEventDetector(settings(), THRESHOLD);
+    expect(play(detector, burst)).toEqual(["burst"]);
+    expect(play(detector, clap, 1000)).toEqual(["clap"]);
+    expect(play(detector, { ...clap, durationMs: 80 }, 2000)).toEqual(["clap"]);
+  });
+
+  it.each([
+    // a cough: long, noisy and bright
+    [
+      "a cough",
+      { durationMs: 300, centroid: 2000, flatness: 0.6, frequency: 0 },
+    ],
+    // a whistle blip: short and almost a pure tone
+    [
+      "a whistle blip",
+      { durationMs: 100, centroid: 2000, flatness: 0.01, frequency: 2000 },
+    ],
+    // a desk knock: very short and dull
+    ["a knock", { durationMs: 20, centroid: 300, flatness: 0.3, frequency: 0 }],
+  ])("ignores %s that matches neither template", (_, sound) => {
+    const detector = new SoundEventDetector(settings(), THRESHOLD);
+    expect(play(detector, sound)).toEqual([]);
+  });
+
+  it("classifies by learned templates instead of the built-in ones", () => {
+    const tongueClick = {
+      durationMs: 30,
+      centroid: 1800,
+      flatness: 0.3,
+      frequency: 0,
+    };
+    const untrained = new SoundEventDetector(settings(), THRESHOLD);
+    expect(play(untrained, tongueClick)).toEqual([]);
+
+    const learned = learnSoundEvent(settings(), "clap", [tongueClick], null);
+    const detector = new SoundEventDetector(learned, THRESHOLD);
+    expect(play(detector, tongueClick)).toEqual(["clap"]);
+    expect(play(detector, burst, 1000)).toEqual(["burst"]);
+  });
+
+  it("does not classify sounds longer than a transient", () => {
+    const detector = new SoundEventDetector(settings(), THRESHOLD);
+    expect(play(detector, { ...burst, durationMs: 500, frequency: 0 })).toEqual(
+      []
+    );
+  });
+
+  it("fires a hum while it is still going", () => {
+    const detector = new SoundEventDetector(settings(), THRESHOLD);
+    const events = play(detector, {
+      durationMs: 1000,
+      centroid: 250,
+      flatness: 0.05,
+      frequency: 150,
+    });
+    expect(events).toEqual(["hum"]);
+  });
+});
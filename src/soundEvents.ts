@@ -0,0 +1,324 @@
+import { MIN_PITCH_CLARITY } from "./pitchDetection";
+import { InputCommand } from "./paddleInput";
+
+export type SoundEventKind = "burst" | "clap" | "hum";
+
+export const SOUND_EVENT_KINDS: SoundEventKind[] = ["burst", "clap", "hum"];
+
+export const SOUND_EVENT_LABEL: Record<SoundEventKind, string> = {
+  burst: 'Short "pa"',
+  clap: "Clap",
+  hum: "Low hum",
+};
+
+export const SOUND_EVENT_INSTRUCTION: Record<SoundEventKind, string> = {
+  burst: 'Say a short, sharp "pa" a few times with pauses in between.',
+  clap: "Clap a few times with pauses in between.",
+  hum: "Hum a low note for a second or two, a few times.",
+};
+
+export type SoundCommandBinding = InputCommand | "none";
+
+export const SOUND_COMMAND_BINDINGS: SoundCommandBinding[] = [
+  "launch",
+  "fire",
+  "pause",
+  "none",
+];
+
+export const SOUND_COMMAND_LABEL: Record<SoundCommandBinding, string> = {
+  launch: "Launch ball",
+  fire: "Fire lasers",
+  pause: "Pause / resume",
+  none: "Nothing",
+};
+
+/** Per-frame measurements the detector works on. */
+export type SoundFeatures = {
+  // loudest spectrum bin, same byte scale as the calibration amplitudes
+  level: number;
+  // spectral centroid in Hz
+  centroid: number;
+  // spectral flatness, 0 = pure tone, 1 = white noise
+  flatness: number;
+  frequency: number;
+  clarity: number;
+};
+
+/** Summary of one sound from onset to release. */
+export type SoundTemplate = {
+  durationMs: number;
+  centroid: number;
+  flatness: number;
+  // median of the voiced frames, 0 when nothing was voiced
+  frequency: number;
+};
+
+export type SoundEventSettings = {
+  enabled: boolean;
+  bindings: Record<SoundEventKind, SoundCommandBinding>;
+  // learned from recorded examples, null uses the built-in guess
+  templates: Record<SoundEventKind, SoundTemplate | null>;
+  // hums must stay below this so whistling never counts as one
+  humMaxFreq: number;
+};
+
+export const DEFAULT_SOUND_EVENT_SETTINGS: SoundEventSettings = {
+  enabled: false,
+  bindings: { burst: "fire", clap: "pause", hum: "launch" },
+  templates: { burst: null, clap: null, hum: null },
+  humMaxFreq: 300,
+};
+
+const DEFAULT_TEMPLATES: Record<SoundEventKind, SoundTemplate> = {
+  burst: { durationMs: 180, centroid: 900, flatness: 0.2, frequency: 150 },
+  clap: { durationMs: 60, centroid: 3000, flatness: 0.5, frequency: 0 },
+  hum: { durationMs: 800, centroid: 250, flatness: 0.05, frequency: 150 },
+};
+
+// quiet this long ends a sound
+const RELEASE_MS = 50;
+// anything longer is not a burst or clap (e.g. whistling)
+const MAX_TRANSIENT_MS = 350;
+const HUM_MIN_MS = 400;
+// share of the frames that have to sit in the hum range
+const HUM_VOICED_RATIO = 0.8;
+const COMMAND_COOLDOWN_MS = 300;
+// headroom above the highest calibrated hum
+const HUM_MARGIN_SEMITONES = 3;
+// farther than this from both templates is some other noise, e.g. twice as
+// long as a clap and 0.2 off in flatness
+const MAX_TEMPLATE_DISTANCE = 1.5;
+
+type Segment = {
+  startedAt: number;
+  lastLoudAt: number;
+  frames: number;
+  centroidSum: number;
+  flatnessSum: number;
+  voiced: number[];
+  humFrames: number;
+  humFired: boolean;
+};
+
+function median(values: number[]) {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function summarize(segment: Segment): SoundTemplate {
+  return {
+    durationMs: segment.lastLoudAt - segment.startedAt,
+    centroid: segment.centroidSum / segment.frames,
+    flatness: segment.flatnessSum / segment.frames,
+    frequency: median(segment.voiced),
+  };
+}
+
+function templateDistance(a: SoundTemplate, b: SoundTemplate) {
+  // log scale so a 2x longer clap weighs the same at any length
+  return (
+    Math.log(Math.max(1, a.durationMs) / Math.max(1, b.durationMs)) ** 2 +
+    Math.log(Math.max(1, a.centroid) / Math.max(1, b.centroid)) ** 2 +
+    ((a.flatness - b.flatness) / 0.2) ** 2
+  );
+}
+
+/**
+ * Splits the feature stream into sounds separated by quiet. Each sound is
+ * reported once it ends.
+ */
+export class SoundSegmenter {
+  private threshold: number;
+  private humMaxFreq: number;
+  private segment: Segment | null = null;
+
+  constructor(threshold: number, humMaxFreq = 0) {
+    this.threshold = threshold;
+    this.humMaxFreq = humMaxFreq;
+  }
+
+  /** The sound still in progress, if any. */
+  public get current(): Readonly<Segment> | null {
+    return this.segment;
+  }
+
+  public process(features: SoundFeatures, now: number): SoundTemplate | null {
+    const loud = features.level > this.threshold;
+    if (!this.segment) {
+      if (!loud) {
+        return null;
+      }
+      this.segment = {
+        startedAt: now,
+        lastLoudAt: now,
+        frames: 0,
+        centroidSum: 0,
+        flatnessSum: 0,
+        voiced: [],
+        humFrames: 0,
+        humFired: false,
+      };
+    }
+    const segment = this.segment;
+    if (!loud) {
+      if (now - segment.lastLoudAt < RELEASE_MS) {
+        return null;
+      }
+      this.segment = null;
+      return summarize(segment);
+    }
+    segment.lastLoudAt = now;
+    segment.frames += 1;
+    segment.centroidSum += features.centroid;
+    segment.flatnessSum += features.flatness;
+    if (features.clarity > MIN_PITCH_CLARITY && features.frequency > 0) {
+      segment.voiced.push(features.frequency);
+      if (features.frequency < this.humMaxFreq) {
+        segment.humFrames += 1;
+      }
+    }
+    return null;
+  }
+
+  public markHumFired() {
+    if (this.segment) {
+      this.segment.humFired = true;
+    }
+  }
+}
+
+/**
+ * Recognises short bursts, claps and sustained low hums. Bursts and claps
+ * are told apart by the closest template once the sound ends, and ignored
+ * when neither is close. Hums fire as soon as they have lasted long enough.
+ */
+export class SoundEventDetector {
+  private settings: SoundEventSettings;
+  private segmenter: SoundSegmenter;
+  private lastEventAt = -Infinity;
+
+  constructor(settings: SoundEventSettings, threshold: number) {
+    this.settings = settings;
+    this.segmenter = new SoundSegmenter(threshold, settings.humMaxFreq);
+  }
+
+  public process(features: SoundFeatures, now: number): SoundEventKind | null {
+    const finished = this.segmenter.process(features, now);
+    const segment = this.segmenter.current;
+    let event: SoundEventKind | null = null;
+    if (segment) {
+      if (
+        !segment.humFired &&
+        now - segment.startedAt >= HUM_MIN_MS &&
+        segment.humFrames >= segment.frames * HUM_VOICED_RATIO
+      ) {
+        this.segmenter.markHumFired();
+        event = "hum";
+      }
+    } else if (finished && finished.durationMs <= MAX_TRANSIENT_MS) {
+      event = this.classifyTransient(finished);
+    }
+    if (event === null || now - this.lastEventAt < COMMAND_COOLDOWN_MS) {
+      return null;
+    }
+    this.lastEventAt = now;
+    return event;
+  }
+
+  private classifyTransient(sound: SoundTemplate): SoundEventKind | null {
+    const { templates } = this.settings;
+    const burst = templateDistance(
+      sound,
+      templates.burst ?? DEFAULT_TEMPLATES.burst
+    );
+    const clap = templateDistance(
+      sound,
+      templates.clap ?? DEFAULT_TEMPLATES.clap
+    );
+    if (Math.min(burst, clap) > MAX_TEMPLATE_DISTANCE) {
+      return null;
+    }
+    return clap < burst ? "clap" : "burst";
+  }
+}
+
+/**
+ * Averages recorded examples into a template. Hum examples also move the
+ * hum ceiling, kept below `whistleMinFreq` when that is known.
+ */
+export function learnSoundEvent(
+  settings: SoundEventSettings,
+  kind: SoundEventKind,
+  examples: SoundTemplate[],
+  whistleMinFreq: number | null
+): SoundEventSettings {
+  if (examples.length === 0) {
+    return settings;
+  }
+  const mean = (key: keyof SoundTemplate) =>
+    examples.reduce((sum, example) => sum + example[key], 0) / examples.length;
+  const template: SoundTemplate = {
+    durationMs: mean("durationMs"),
+    centroid: mean("centroid"),
+    flatness: mean("flatness"),
+    frequency: median(examples.map((example) => example.frequency)),
+  };
+  let { humMaxFreq } = settings;
+  if (kind === "hum") {
+    const highest = Math.max(...examples.map((example) => example.frequency));
+    if (highest > 0) {
+      humMaxFreq = highest * 2 ** (HUM_MARGIN_SEMITONES / 12);
+      if (whistleMinFreq !== null) {
+        humMaxFreq = Math.min(humMaxFreq, whistleMinFreq);
+      }
+    }
+  }
+  return {
+    ...settings,
+    templates: { ...settings.templates, [kind]: template },
+    humMaxFreq,
+  };
+}
+
+function isTemplate(value: unknown): value is SoundTemplate {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const template = value as Record<string, unknown>;
+  return ["durationMs", "centroid", "flatness", "frequency"].every(
+    (key) => typeof template[key] === "number" && Number.isFinite(template[key])
+  );
+}
+
+/** Reads stored settings, falling back to defaults for missing or bad values. */
+export function parseSoundEventSettings(data: unknown): SoundEventSettings {
+  const defaults = DEFAULT_SOUND_EVENT_SETTINGS;
+  if (typeof data !== "object" || data === null) {
+    return structuredClone(defaults);
+  }
+  const stored = data as Record<string, unknown>;
+  const bindings = { ...defaults.bindings };
+  const templates = { ...defaults.templates };
+  for (const kind of SOUND_EVENT_KINDS) {
+    const binding = (stored.bindings as Record<string, unknown>)?.[kind];
+    if (SOUND_COMMAND_BINDINGS.includes(binding as SoundCommandBinding)) {
+      bindings[kind] = binding as SoundCommandBinding;
+    }
+    const template = (stored.templates as Record<string, unknown>)?.[kind];
+    templates[kind] = isTemplate(template) ? template : null;
+  }
+  return {
+    enabled:
+      typeof stored.enabled === "boolean" ? stored.enabled : defaults.enabled,
+    bindings,
+    templates,
+    humMaxFreq:
+      typeof stored.humMaxFreq === "number" && stored.humMaxFreq > 0
+        ? stored.humMaxFreq
+        : defaults.humMaxFreq,
+  };
+}
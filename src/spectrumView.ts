@@ -0,0 +1,205 @@
+/** Visible frequency range of the calibration spectrum, log scaled. */
+export type FrequencyAxis = { minFreq: number; maxFreq: number };
+
+export const FULL_AXIS: FrequencyAxis = { minFreq: 20, maxFreq: 20000 };
+// the axis cannot be zoomed in beyond this many semitones
+const MIN_AXIS_SEMITONES = 12;
+// frequency ratio shown either side of a fitted band
+const FIT_MARGIN = 1.5;
+
+const NOTE_NAMES = [
+  "C",
+  "C#",
+  "D",
+  "D#",
+  "E",
+  "F",
+  "F#",
+  "G",
+  "G#",
+  "A",
+  "A#",
+  "B",
+];
+
+// 1-2-5 steps read well on a log axis, zoomed in views need every step
+const TICK_STEPS = [1, 2, 5];
+const FINE_TICK_STEPS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+const MIN_TICKS = 3;
+
+/** Nearest equal-tempered note, e.g. "A4" for 440 Hz. */
+export function noteName(frequency: number) {
+  const midi = Math.round(69 + 12 * Math.log2(frequency / 440));
+  return `${NOTE_NAMES[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+export function formatHz(frequency: number) {
+  return frequency >= 1000
+    ? `${+(frequency / 1000).toFixed(1)}k`
+    : `${Math.round(frequency)}`;
+}
+
+/** Position of `frequency` on the axis, 0 at `minFreq` and 1 at `maxFreq`. */
+export function axisPosition(axis: FrequencyAxis, frequency: number) {
+  return (
+    Math.log(frequency / axis.minFreq) / Math.log(axis.maxFreq / axis.minFreq)
+  );
+}
+
+export function axisFrequency(axis: FrequencyAxis, position: number) {
+  return axis.minFreq * (axis.maxFreq / axis.minFreq) ** position;
+}
+
+/** Round frequencies to label, 1-2-5 per decade unless that is too few. */
+export function axisTicks(axis: FrequencyAxis): number[] {
+  const ticks = decadeTicks(axis, TICK_STEPS);
+  return ticks.length >= MIN_TICKS ? ticks : decadeTicks(axis, FINE_TICK_STEPS);
+}
+
+function decadeTicks(axis: FrequencyAxis, steps: number[]) {
+  const ticks: number[] = [];
+  for (
+    let decade = 10 ** Math.floor(Math.log10(axis.minFreq));
+    decade <= axis.maxFreq;
+    decade *= 10
+  ) {
+    for (const step of steps) {
+      const frequency = decade * step;
+      if (frequency >= axis.minFreq && frequency <= axis.maxFreq) {
+        ticks.push(frequency);
+      }
+    }
+  }
+  return ticks;
+}
+
+/**
+ * Scales the axis around its centre, `factor` < 1 zooms in. The result stays
+ * within the full audible range.
+ */
+export function zoomAxis(axis: FrequencyAxis, factor: number): FrequencyAxis {
+  const centre = Math.sqrt(axis.minFreq * axis.maxFreq);
+  const minSpan = 2 ** (MIN_AXIS_SEMITONES / 24);
+  const maxSpan = Math.sqrt(FULL_AXIS.maxFreq / FULL_AXIS.minFreq);
+  const span = Math.min(
+    maxSpan,
+    Math.max(minSpan, Math.sqrt(axis.maxFreq / axis.minFreq) ** factor)
+  );
+  return clampAxis(centre / span, centre * span);
+}
+
+/** Axis around a band, with some margin either side. */
+export function fitAxis(minFreq: number, maxFreq: number): FrequencyAxis {
+  return clampAxis(minFreq / FIT_MARGIN, maxFreq * FIT_MARGIN);
+}
+
+function clampAxis(minFreq: number, maxFreq: number): FrequencyAxis {
+  const clamped = {
+    minFreq: Math.max(FULL_AXIS.minFreq, minFreq),
+    maxFreq: Math.min(FULL_AXIS.maxFreq, maxFreq),
+  };
+  return clamped.minFreq < clamped.maxFreq ? clamped : FULL_AXIS;
+}
+
+/**
+ * Loudest byte of `spectrum` between two axis positions. Low frequencies can
+ * be narrower than a bin, then neighbouring columns share it.
+ */
+export function spectrumValue(
+  spectrum: Uint8Array,
+  binHz: number,
+  axis: FrequencyAxis,
+  from: number,
+  to: number
+) {
+  const firstBin = Math.floor(axisFrequency(axis, from) / binHz);
+  const lastBin = Math.max(
+    firstBin,
+    Math.ceil(axisFrequency(axis, to) / binHz) - 1
+  );
+  let value = 0;
+  for (let bin = firstBin; bin <= lastBin && bin < spectrum.length; bin++) {
+    value = Math.max(value, spectrum[bin]);
+  }
+  return value;
+}
+
+/**
+ * Scrolling spectrogram. Raw spectra are kept so the picture can be redrawn
+ * when the axis changes, the newest row is at the bottom.
+ */
+export class Spectrogram {
+  private columns: number;
+  private rows: number;
+  private history: Uint8Array[] = [];
+  private image: HTMLCanvasElement;
+  private imageCtx: CanvasRenderingContext2D;
+  private axis: FrequencyAxis | null = null;
+
+  constructor(columns: number, rows: number) {
+    this.columns = columns;
+    this.rows = rows;
+    this.image = document.createElement("canvas");
+    this.image.width = columns;
+    this.image.height = rows;
+    this.imageCtx = this.image.getContext("2d")!;
+  }
+
+  public get length() {
+    return this.rows;
+  }
+
+  public push(spectrum: Uint8Array, binHz: number, axis: FrequencyAxis) {
+    this.history.push(spectrum.slice());
+    if (this.history.length > this.rows) {
+      this.history.shift();
+    }
+    if (this.axis !== axis) {
+      // redraw everything on the new axis
+      this.axis = axis;
+      this.imageCtx.clearRect(0, 0, this.columns, this.rows);
+      const offset = this.rows - this.history.length;
+      this.history.forEach((row, i) =>
+        this.drawRow(row, binHz, axis, offset + i)
+      );
+      return;
+    }
+    this.imageCtx.drawImage(this.image, 0, -1);
+    this.drawRow(spectrum, binHz, axis, this.rows - 1);
+  }
+
+  private drawRow(
+    spectrum: Uint8Array,
+    binHz: number,
+    axis: FrequencyAxis,
+    row: number
+  ) {
+    const pixels = this.imageCtx.createImageData(this.columns, 1);
+    for (let x = 0; x < this.columns; x++) {
+      const value = spectrumValue(
+        spectrum,
+        binHz,
+        axis,
+        x / this.columns,
+        (x + 1) / this.columns
+      );
+      // black - red - yellow - white heat map
+      pixels.data[x * 4] = Math.min(255, value * 3);
+      pixels.data[x * 4 + 1] = Math.min(255, Math.max(0, value * 3 - 255));
+      pixels.data[x * 4 + 2] = Math.min(255, Math.max(0, value * 3 - 510));
+      pixels.data[x * 4 + 3] = 255;
+    }
+    this.imageCtx.putImageData(pixels, 0, row);
+  }
+
+  public draw(
+    ctx: CanvasRenderingContext2D,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ) {
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(this.image, x, y, width, height);
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { LOG_FRAMES, Telemetry, telemetryToCsv } from "./telemetry";
+
+const pitch = { frequency: 1000, amplitude: 120, clarity: 0.9 };
+
+describe("Telemetry", () => {
+  it("keeps the latest frames in order once the log is full", () => {
+    const telemetry = new Telemetry({ amplitudeThreshold: 80, latency: null });
+    telemetry.logging = true;
+    const frames = LOG_FRAMES + 10;
+    for (let frame = 0; frame < frames; frame++) {
+      telemetry.record(frame, pitch, null, 0.5);
+    }
+    const times = telemetry.log.map((sample) => sample.time);
+    expect(times).toHaveLength(LOG_FRAMES);
+    expect(times[0]).toBe(10);
+    expect(times[times.length - 1]).toBe(frames - 1);
+    expect(times.every((time, i) => i === 0 || time === times[i - 1] + 1)).toBe(
+      true
+    );
+  });
+
+  it("logs only while logging and starts over when cleared", () => {
+    const telemetry = new Telemetry({ amplitudeThreshold: 80, latency: null });
+    telemetry.record(0, pitch, null, 0.5);
+    expect(telemetry.logLength).toBe(0);
+    telemetry.logging = true;
+    telemetry.record(16, pitch, null, 0.5);
+    telemetry.record(32, null, null, null);
+    expect(telemetryToCsv(telemetry.log).split("\n")).toEqual([
+      "time,frameMs,frequency,amplitude,clarity,threshold,target,latencyMs",
+      "16,16,1000,120,0.9,80,0.5,",
+      "32,16,,,,80,,",
+      "",
+    ]);
+    telemetry.clearLog();
+    expect(telemetry.log).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+import { NoiseEstimate } from "./noiseTracker";
+import { PitchSample } from "./voiceControl";
+
+// frames shown in the overlay's pitch graph, a few seconds
+const HISTORY_FRAMES = 180;
+// frames kept in the exportable log, about ten minutes at 60 fps
+export const LOG_FRAMES = 36000;
+// smoothing of the frame time shown, per frame
+const FRAME_TIME_SMOOTHING = 0.1;
+
+export type TelemetrySample = {
+  // performance.now() of the frame, in milliseconds
+  time: number;
+  frameMs: number;
+  frequency: number | null;
+  amplitude: number | null;
+  clarity: number | null;
+  // what the amplitude is compared against, null without a voice input
+  threshold: number | null;
+  target: number | null;
+  latencyMs: number | null;
+};
+
+export type TelemetrySources = {
+  // the calibrated threshold, the live one comes from the input's noise
+  amplitudeThreshold: number | null;
+  // seconds, e.g. `VoiceControl.analysisLatency`
+  latency: (() => number) | null;
+};
+
+/**
+ * Per-frame metrics of the game loop and audio pipeline for the debug
+ * overlay. The last few seconds are always kept, the rolling log only while
+ * `logging` is on.
+ */
+export class Telemetry {
+  private sources: TelemetrySources;
+  private lastFrameAt: number | null = null;
+  private smoothedFrameMs = 0;
+  public readonly history: TelemetrySample[] = [];
+  // ring buffer once full, `logNext` is where the oldest sample gets replaced
+  private logSamples: TelemetrySample[] = [];
+  private logNext = 0;
+  // both read every frame, so they can be flipped during play
+  public visible = false;
+  public logging = false;
+
+  constructor(sources: TelemetrySources) {
+    this.sources = sources;
+  }
+
+  public get amplitudeThreshold() {
+    return this.sources.amplitudeThreshold;
+  }
+
+  public get latest(): TelemetrySample | null {
+    return this.history[this.history.length - 1] ?? null;
+  }
+
+  public get frameMs() {
+    return this.smoothedFrameMs;
+  }
+
+  /** The logged samples, oldest first. */
+  public get log(): TelemetrySample[] {
+    return [
+      ...this.logSamples.slice(this.logNext),
+      ...this.logSamples.slice(0, this.logNext),
+    ];
+  }
+
+  public get logLength() {
+    return this.logSamples.length;
+  }
+
+  public record(
+    now: number,
+    pitch: PitchSample | null,
+    noise: NoiseEstimate | null,
+    target: number | null
+  ) {
+    const frameMs = this.lastFrameAt === null ? 0 : now - this.lastFrameAt;
+    this.lastFrameAt = now;
+    this.smoothedFrameMs +=
+      (frameMs - this.smoothedFrameMs) *
+      (this.history.length === 0 ? 1 : FRAME_TIME_SMOOTHING);
+    const latency = this.sources.latency?.();
+    const sample: TelemetrySample = {
+      time: now,
+      frameMs,
+      frequency: pitch?.frequency ?? null,
+      // the level the gate sees, the band's one with noise tracking
+      amplitude: noise?.level ?? pitch?.amplitude ?? null,
+      clarity: pitch?.clarity ?? null,
+      threshold: noise?.threshold ?? this.sources.amplitudeThreshold,
+      target,
+      latencyMs: latency === undefined ? null : latency * 1000,
+    };
+    this.history.push(sample);
+    if (this.history.length > HISTORY_FRAMES) {
+      this.history.shift();
+    }
+    if (this.logging) {
+      if (this.logSamples.length < LOG_FRAMES) {
+        this.logSamples.push(sample);
+      } else {
+        this.logSamples[this.logNext] = sample;
+        this.logNext = (this.logNext + 1) % LOG_FRAMES;
+      }
+    }
+  }
+
+  public clearLog() {
+    this.logSamples = [];
+    this.logNext = 0;
+  }
+}
+
+const CSV_COLUMNS: (keyof TelemetrySample)[] = [
+  "time",
+  "frameMs",
+  "frequency",
+  "amplitude",
+  "clarity",
+  "threshold",
+  "target",
+  "latencyMs",
+];
+
+export function telemetryToCsv(samples: TelemetrySample[]) {
+  const rows = samples.map((sample) =>
+    CSV_COLUMNS.map((column) => {
+      const value = sample[column];
+      return value === null ? "" : +value.toFixed(3);
+    }).join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+const OVERLAY_WIDTH = 150;
+const OVERLAY_HEIGHT = 112;
+const GRAPH_HEIGHT = 40;
+
+const isAboveThreshold = ({ amplitude, threshold }: TelemetrySample) =>
+  amplitude !== null && threshold !== null && amplitude > threshold;
+
+const format = (value: number | null, digits = 0, unit = "") =>
+  value === null ? "-" : `${value.toFixed(digits)}${unit}`;
+
+/**
+ * Draws the overlay in the top right corner of a canvas scaled to
+ * `viewWidth` units. The pitch graph spans the frequencies it shows.
+ */
+export function drawTelemetry(
+  ctx: CanvasRenderingContext2D,
+  telemetry: Telemetry,
+  viewWidth: number
+) {
+  const x = viewWidth - OVERLAY_WIDTH - 4;
+  const y = 28;
+  ctx.fillStyle = "rgba(0, 0, 0, 0.7)";
+  ctx.fillRect(x, y, OVERLAY_WIDTH, OVERLAY_HEIGHT);
+
+  const sample = telemetry.latest;
+  const fps = telemetry.frameMs > 0 ? 1000 / telemetry.frameMs : null;
+  const voiced = sample !== null && isAboveThreshold(sample);
+  const lines: [string, string][] = [
+    ["#FFFFFF", `${format(telemetry.frameMs, 1, " ms")}  ${format(fps)} fps`],
+    ["#00FFFF", `pitch ${format(sample?.frequency ?? null, 0, " Hz")}`],
+    [
+      voiced ? "#00FF00" : "#FF8080",
+      `amp ${format(sample?.amplitude ?? null)} / thr ${format(
+        sample?.threshold ?? null
+      )} (cal ${format(telemetry.amplitudeThreshold)})`,
+    ],
+    ["#FFFFFF", `clarity ${format(sample?.clarity ?? null, 2)}`],
+    ["#FFFF00", `target ${format(sample?.target ?? null, 3)}`],
+    ["#FFFFFF", `latency ~${format(sample?.latencyMs ?? null, 0, " ms")}`],
+  ];
+  ctx.font = "8px monospace";
+  lines.forEach(([color, text], i) => {
+    ctx.fillStyle = color;
+    ctx.fillText(text, x + 4, y + 10 + i * 10);
+  });
+
+  // pitch history, brighter where the voice gate was open
+  const frequencies = telemetry.history
+    .map((entry) => entry.frequency)
+    .filter((frequency): frequency is number => !!frequency);
+  if (frequencies.length === 0) {
+    return;
+  }
+  const graphY = y + OVERLAY_HEIGHT - GRAPH_HEIGHT - 4;
+  const minFreq = Math.min(...frequencies);
+  const maxFreq = Math.max(minFreq * 1.1, ...frequencies);
+  const step = OVERLAY_WIDTH / HISTORY_FRAMES;
+  telemetry.history.forEach((entry, i) => {
+    if (!entry.frequency) {
+      return;
+    }
+    const position =
+      Math.log(entry.frequency / minFreq) / Math.log(maxFreq / minFreq);
+    ctx.fillStyle = isAboveThreshold(entry)
+      ? "#00FFFF"
+      : "rgba(0, 255, 255, 0.3)";
+    ctx.fillRect(
+      x + i * step,
+      graphY + GRAPH_HEIGHT * (1 - position) - 1,
+      Math.max(1, step),
+      2
+    );
+  });
+}
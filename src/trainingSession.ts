@@ -0,0 +1,215 @@
+import { PitchMappingMode } from "./pitchMapping";
+
+export const TARGETS_PER_SESSION = 10;
+// distance from the target, in paddle positions, that counts as on it
+export const TARGET_TOLERANCE = 0.06;
+// time to stay on a target before the next one shows
+export const HOLD_SECONDS = 1;
+// a target not held by then counts as missed
+const TARGET_TIMEOUT_SECONDS = 6;
+// consecutive targets are at least this far apart, so each needs a move
+const MIN_TARGET_DISTANCE = 0.2;
+// reaction times scored from full marks to none
+const FAST_REACTION_SECONDS = 0.5;
+const SLOW_REACTION_SECONDS = 3;
+
+const STORAGE_KEY = "voice-arkanoid.trainingSessions";
+const MAX_SESSIONS = 200;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+export type TargetResult = {
+  position: number;
+  // seconds from showing the target to first reaching it, null when missed
+  reactionSeconds: number | null;
+  // RMS distance from the target while held, in paddle positions
+  wobble: number | null;
+  // 0..100, half speed and half steadiness
+  score: number;
+};
+
+type HitResult = TargetResult & { reactionSeconds: number; wobble: number };
+
+const isHit = (result: TargetResult): result is HitResult =>
+  result.reactionSeconds !== null && result.wobble !== null;
+
+export type TrainingSummary = {
+  id: string;
+  player: string;
+  mapping: PitchMappingMode;
+  playedAt: number;
+  // mean of the target scores, 0..100
+  score: number;
+  targetsHit: number;
+  targets: number;
+  meanReactionSeconds: number | null;
+  meanWobble: number | null;
+};
+
+/** Random targets, each a real move away from the one before. */
+export function createTargets(count = TARGETS_PER_SESSION): number[] {
+  const targets: number[] = [];
+  // the paddle rests in the middle at the start
+  let previous = 0.5;
+  while (targets.length < count) {
+    const position = 0.05 + Math.random() * 0.9;
+    if (Math.abs(position - previous) >= MIN_TARGET_DISTANCE) {
+      targets.push(position);
+      previous = position;
+    }
+  }
+  return targets;
+}
+
+function scoreTarget(reactionSeconds: number, wobble: number) {
+  const speed = clamp01(
+    (SLOW_REACTION_SECONDS - reactionSeconds) /
+      (SLOW_REACTION_SECONDS - FAST_REACTION_SECONDS)
+  );
+  const steadiness = clamp01(1 - wobble / TARGET_TOLERANCE);
+  return Math.round(50 * speed + 50 * steadiness);
+}
+
+/**
+ * Runs one exercise: a target is shown, the player reaches it and holds it
+ * for `HOLD_SECONDS`, then the next one shows. Leaving the target restarts
+ * the hold but keeps the first reaction time.
+ */
+export class TrainingSession {
+  private targets: number[];
+  private shownAt: number | null = null;
+  private reachedAt: number | null = null;
+  private holdStartedAt: number | null = null;
+  private holdErrors: number[] = [];
+  public readonly results: TargetResult[] = [];
+
+  constructor(targets: number[]) {
+    this.targets = targets;
+  }
+
+  public get target(): number | null {
+    return this.targets[this.results.length] ?? null;
+  }
+
+  public get size() {
+    return this.targets.length;
+  }
+
+  public get finished() {
+    return this.results.length === this.targets.length;
+  }
+
+  /** Share of the hold done on the current target, 0..1. */
+  public holdProgress(now: number) {
+    return this.holdStartedAt === null
+      ? 0
+      : clamp01((now - this.holdStartedAt) / HOLD_SECONDS);
+  }
+
+  /** Feeds one paddle position, null while no pitch is heard; `now` in seconds. */
+  public update(position: number | null, now: number) {
+    const target = this.target;
+    if (target === null) {
+      return;
+    }
+    this.shownAt ??= now;
+    const error = position === null ? null : position - target;
+    if (error !== null && Math.abs(error) <= TARGET_TOLERANCE) {
+      this.reachedAt ??= now;
+      if (this.holdStartedAt === null) {
+        this.holdStartedAt = now;
+        this.holdErrors = [];
+      }
+      this.holdErrors.push(error);
+      if (now - this.holdStartedAt >= HOLD_SECONDS) {
+        const reactionSeconds = this.reachedAt - this.shownAt;
+        const wobble = Math.sqrt(
+          this.holdErrors.reduce((sum, e) => sum + e * e, 0) /
+            this.holdErrors.length
+        );
+        this.next({
+          position: target,
+          reactionSeconds,
+          wobble,
+          score: scoreTarget(reactionSeconds, wobble),
+        });
+      }
+      return;
+    }
+    this.holdStartedAt = null;
+    if (now - this.shownAt >= TARGET_TIMEOUT_SECONDS) {
+      this.next({
+        position: target,
+        reactionSeconds: null,
+        wobble: null,
+        score: 0,
+      });
+    }
+  }
+
+  private next(result: TargetResult) {
+    this.results.push(result);
+    this.shownAt = null;
+    this.reachedAt = null;
+    this.holdStartedAt = null;
+    this.holdErrors = [];
+  }
+
+  public summary(
+    player: string,
+    mapping: PitchMappingMode,
+    playedAt: number
+  ): TrainingSummary {
+    const hits = this.results.filter(isHit);
+    const mean = (values: number[]) =>
+      values.length === 0
+        ? null
+        : values.reduce((sum, value) => sum + value, 0) / values.length;
+    return {
+      id: `${playedAt.toString(36)}-${Math.random().toString(36).slice(2)}`,
+      player,
+      mapping,
+      playedAt,
+      score: Math.round(mean(this.results.map((result) => result.score)) ?? 0),
+      targetsHit: hits.length,
+      targets: this.results.length,
+      meanReactionSeconds: mean(hits.map((result) => result.reactionSeconds)),
+      meanWobble: mean(hits.map((result) => result.wobble)),
+    };
+  }
+}
+
+function isTrainingSummary(value: unknown): value is TrainingSummary {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const summary = value as Record<string, unknown>;
+  return (
+    typeof summary.id === "string" &&
+    typeof summary.player === "string" &&
+    typeof summary.playedAt === "number" &&
+    typeof summary.score === "number"
+  );
+}
+
+export function loadTrainingSessions(): TrainingSummary[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter(isTrainingSummary) : [];
+  } catch (error) {
+    console.warn("Ignoring unreadable training sessions", error);
+    return [];
+  }
+}
+
+export function saveTrainingSessions(sessions: TrainingSummary[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+}
+
+/** Adds a finished session, oldest first, dropping the oldest beyond the cap. */
+export function addTrainingSession(
+  sessions: TrainingSummary[],
+  summary: TrainingSummary
+): TrainingSummary[] {
+  return [...sessions, summary].slice(-MAX_SESSIONS);
+}
@@ -1,26 +1,410 @@
+import {
+  ANALYSIS_HOP_SIZE,
+  ANALYSIS_PROCESSOR_NAME,
+  ANALYSIS_WINDOW_SIZE,
+  AnalysisFrame,
+  AnalysisMessage,
+  spectrumFeatures,
+  SpectrumFeatures,
+} from "./audioAnalysis";
+import analysisWorkletUrl from "./analysisWorklet.ts?worker&url";
+import {
+  bandSearchOptions,
+  detectPitch,
+  FrequencyBand,
+  PitchEstimate,
+} from "./pitchDetection";
+
+export type PitchSample = {
+  frequency: number;
+  amplitude: number;
+  clarity: number;
+};
+
+export type MicrophoneSettings = {
+  // null follows the system default device
+  deviceId: string | null;
+  noiseSuppression: boolean;
+  // automatic gain changes the level under the calibrated thresholds
+  autoGainControl: boolean;
+};
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = {
+  deviceId: null,
+  noiseSuppression: false,
+  autoGainControl: false,
+};
+
+const MICROPHONE_STORAGE_KEY = "voice-arkanoid.microphone";
+
+export type MicrophoneStatus =
+  | "pending"
+  | "ready"
+  | "unsupported"
+  | "permissionDenied"
+  | "noDevice"
+  | "disconnected"
+  | "error";
+
+export class MicrophoneError extends Error {
+  public readonly status: MicrophoneStatus;
+
+  constructor(status: MicrophoneStatus, message: string) {
+    super(message);
+    this.name = "MicrophoneError";
+    this.status = status;
+  }
+}
+
+function microphoneError(error: unknown): MicrophoneError {
+  const name = error instanceof DOMException ? error.name : "";
+  const message = error instanceof Error ? error.message : String(error);
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return new MicrophoneError("permissionDenied", message);
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return new MicrophoneError("noDevice", message);
+    default:
+      return new MicrophoneError("error", message);
+  }
+}
+
+async function openMicrophone(
+  settings: MicrophoneSettings,
+  echoCancellation: boolean
+): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new MicrophoneError(
+      "unsupported",
+      "This browser cannot access microphones"
+    );
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: settings.deviceId ? { exact: settings.deviceId } : undefined,
+        echoCancellation,
+        noiseSuppression: settings.noiseSuppression,
+        autoGainControl: settings.autoGainControl,
+      },
+    });
+  } catch (error) {
+    throw microphoneError(error);
+  }
+}
+
+async function createAnalysisNode(
+  context: AudioContext
+): Promise<AudioWorkletNode | null> {
+  if (!context.audioWorklet) {
+    return null;
+  }
+  try {
+    await context.audioWorklet.addModule(analysisWorkletUrl);
+    return new AudioWorkletNode(context, ANALYSIS_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+    });
+  } catch (error) {
+    console.warn("Analysis worklet unavailable, polling the analyser", error);
+    return null;
+  }
+}
+
+export class AudioFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioFileError";
+  }
+}
+
+/** Decodes a WAV/OGG/... file into a looping source, not yet started. */
+async function audioFileSource(
+  context: AudioContext,
+  file: Blob
+): Promise<AudioBufferSourceNode> {
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(await file.arrayBuffer());
+  } catch (error) {
+    throw new AudioFileError(
+      `The file could not be decoded: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  source.loop = true;
+  return source;
+}
+
+/** Audio inputs, labels are only filled in once permission was granted. */
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  const devices = (await navigator.mediaDevices?.enumerateDevices()) ?? [];
+  return devices.filter((device) => device.kind === "audioinput");
+}
+
+export function loadMicrophoneSettings(): MicrophoneSettings {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(MICROPHONE_STORAGE_KEY) ?? "null"
+    );
+    return {
+      deviceId: typeof stored?.deviceId === "string" ? stored.deviceId : null,
+      noiseSuppression:
+        typeof stored?.noiseSuppression === "boolean"
+          ? stored.noiseSuppression
+          : DEFAULT_MICROPHONE_SETTINGS.noiseSuppression,
+      autoGainControl:
+        typeof stored?.autoGainControl === "boolean"
+          ? stored.autoGainControl
+          : DEFAULT_MICROPHONE_SETTINGS.autoGainControl,
+    };
+  } catch (error) {
+    console.warn("Ignoring unreadable microphone settings", error);
+    return { ...DEFAULT_MICROPHONE_SETTINGS };
+  }
+}
+
+export function saveMicrophoneSettings(settings: MicrophoneSettings) {
+  localStorage.setItem(MICROPHONE_STORAGE_KEY, JSON.stringify(settings));
+}
+
+const SILENT_PITCH: PitchSample = { frequency: 0, amplitude: 0, clarity: 0 };
+const SILENT_FEATURES: SpectrumFeatures = {
+  level: 0,
+  centroid: 0,
+  flatness: 1,
+};
+// narrow enough to leave neighbouring pitches usable
+const NOTCH_Q = 30;
+// byte steps above the band median for a band peak to count as fully clear
+const BAND_PEAK_CONTRAST = 40;
+
+const sameBand = (a: FrequencyBand, b: FrequencyBand | null) =>
+  b !== null && a.minFreq === b.minFreq && a.maxFreq === b.maxFreq;
+
+// a live microphone or a decoded audio file standing in for one
+type InputSource = MediaStreamAudioSourceNode | AudioBufferSourceNode;
+
 export class VoiceControl {
   private context: AudioContext;
   private analyzerNode: AnalyserNode;
-  private microphone;
+  private source: InputSource;
+  private echoCancellation: boolean;
   private dataArray: Uint8Array;
+  private timeDomainArray: Float32Array;
+  private notches: BiquadFilterNode[] = [];
+  // null where AudioWorklet is unavailable, the analyser is polled instead
+  private analysisNode: AudioWorkletNode | null;
+  private latestFrame: AnalysisFrame | null = null;
+  // the band the worklet searches besides its whole range
+  private workletBand: FrequencyBand | null = null;
+  private listeners = new Set<(frame: AnalysisFrame) => void>();
+  // performance.now() until which the microphone reads as silence
+  private gatedUntil = 0;
+  /** Called when the device goes away, e.g. a headset is unplugged. */
+  public onDisconnected: (() => void) | null = null;
 
   constructor(
     context: AudioContext,
     analyzerNode: AnalyserNode,
-    microphone: MediaStreamAudioSourceNode
+    source: InputSource,
+    analysisNode: AudioWorkletNode | null,
+    echoCancellation: boolean
   ) {
     this.context = context;
     this.analyzerNode = analyzerNode;
-    this.microphone = microphone;
+    this.source = source;
+    this.analysisNode = analysisNode;
+    this.echoCancellation = echoCancellation;
+    if (analysisNode) {
+      analysisNode.port.onmessage = (event: MessageEvent<AnalysisFrame>) =>
+        this.receiveFrame(event.data);
+    }
+    this.connectChain();
+    this.startSource();
     this.dataArray = new Uint8Array(this.analyzerNode.frequencyBinCount);
+    this.timeDomainArray = new Float32Array(this.analyzerNode.fftSize);
   }
 
   public get frequencyPerDataPoint() {
     return this.context.sampleRate / this.analyzerNode.fftSize;
   }
 
+  /** Frames per second from `subscribe`, null when the analyser is polled. */
+  public get analysisRate() {
+    return this.analysisNode
+      ? this.context.sampleRate / ANALYSIS_HOP_SIZE
+      : null;
+  }
+
+  /**
+   * Rough seconds from a sound reaching the page to it being analysed: the
+   * middle of the analysis window, plus the age of the latest worklet frame.
+   * Device and driver latency are not visible to the page.
+   */
+  public get analysisLatency() {
+    const windowDelay = ANALYSIS_WINDOW_SIZE / 2 / this.context.sampleRate;
+    const frameAge = this.latestFrame
+      ? Math.max(0, this.context.currentTime - this.latestFrame.time)
+      : 0;
+    return windowDelay + frameAge;
+  }
+
+  /** True while an audio file stands in for the microphone. */
+  public get usesAudioFile() {
+    return this.source instanceof AudioBufferSourceNode;
+  }
+
+  private get stream() {
+    return this.source instanceof MediaStreamAudioSourceNode
+      ? this.source.mediaStream
+      : null;
+  }
+
+  /** The context the microphone runs on, shared with the game sounds. */
+  public get audioContext() {
+    return this.context;
+  }
+
+  private get isGated() {
+    return performance.now() < this.gatedUntil;
+  }
+
+  /** Treats the microphone as silent for the next `ms` milliseconds. */
+  public gateInput(ms: number) {
+    this.gatedUntil = Math.max(this.gatedUntil, performance.now() + ms);
+  }
+
+  /** Asks the browser to cancel what the page itself plays. */
+  public async setEchoCancellation(enabled: boolean) {
+    this.echoCancellation = enabled;
+    const [track] = this.stream?.getAudioTracks() ?? [];
+    try {
+      await track?.applyConstraints({ echoCancellation: enabled });
+    } catch (error) {
+      console.warn("Echo cancellation setting not applied", error);
+    }
+  }
+
+  /**
+   * Filters the given frequencies out of the microphone signal before
+   * analysis. Nodes are reused while the number of notches stays the same.
+   */
+  public setNotchFrequencies(frequencies: number[]) {
+    if (frequencies.length !== this.notches.length) {
+      this.notches.forEach((notch) => notch.disconnect());
+      this.notches = frequencies.map(() => {
+        const notch = this.context.createBiquadFilter();
+        notch.type = "notch";
+        notch.Q.value = NOTCH_Q;
+        return notch;
+      });
+      this.connectChain();
+    }
+    frequencies.forEach((frequency, i) =>
+      this.notches[i].frequency.setValueAtTime(
+        frequency,
+        this.context.currentTime
+      )
+    );
+  }
+
+  private connectChain() {
+    this.source.disconnect();
+    this.notches.forEach((notch) => notch.disconnect());
+    if (this.source instanceof AudioBufferSourceNode) {
+      // files are played out loud, a microphone never is
+      this.source.connect(this.context.destination);
+    }
+    const chain = [this.source, ...this.notches];
+    chain.slice(1).forEach((node, i) => chain[i].connect(node));
+    const filtered = chain[chain.length - 1];
+    filtered.connect(this.analyzerNode);
+    if (this.analysisNode) {
+      filtered.connect(this.analysisNode);
+    }
+  }
+
+  private receiveFrame(received: AnalysisFrame) {
+    const frame: AnalysisFrame = this.isGated
+      ? {
+          time: received.time,
+          frequency: 0,
+          clarity: 0,
+          bandPitch: null,
+          spectrum: new Float32Array(received.spectrum.length),
+        }
+      : received;
+    this.latestFrame = frame;
+    this.listeners.forEach((listener) => listener(frame));
+  }
+
+  /**
+   * Calls `listener` with every analysis frame, at `analysisRate` however
+   * often the page renders. Returns the unsubscribe function.
+   */
+  public subscribe(listener: (frame: AnalysisFrame) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private startSource() {
+    if (this.source instanceof AudioBufferSourceNode) {
+      this.source.start();
+    }
+    this.stream
+      ?.getAudioTracks()
+      .forEach((track) =>
+        track.addEventListener("ended", () => this.onDisconnected?.())
+      );
+  }
+
+  private stopSource() {
+    this.source.disconnect();
+    if (this.source instanceof AudioBufferSourceNode) {
+      this.source.stop();
+    }
+    this.stream?.getTracks().forEach((track) => track.stop());
+  }
+
+  private replaceSource(source: InputSource) {
+    this.stopSource();
+    this.source = source;
+    this.connectChain();
+    this.startSource();
+  }
+
+  /**
+   * Moves to another device or constraint set without recreating the audio
+   * graph. The old input keeps running if the new one cannot be opened.
+   */
+  public async switchMicrophone(settings: MicrophoneSettings) {
+    const stream = await openMicrophone(settings, this.echoCancellation);
+    this.replaceSource(this.context.createMediaStreamSource(stream));
+  }
+
+  /**
+   * Replaces the microphone with a looping audio file, which goes through
+   * the same filters and analysis. Rejects with an `AudioFileError`.
+   */
+  public async switchAudioFile(file: Blob) {
+    this.replaceSource(await audioFileSource(this.context, file));
+  }
+
   public dispose() {
-    this.microphone.disconnect();
+    this.listeners.clear();
+    if (this.analysisNode) {
+      this.analysisNode.port.onmessage = null;
+      this.analysisNode.disconnect();
+    }
+    this.stopSource();
     this.context.close();
   }
 
@@ -29,41 +413,167 @@ export class VoiceControl {
   }
 
   public getByteFrequencyData(array: Uint8Array) {
-    this.analyzerNode.getByteFrequencyData(array);
+    if (this.latestFrame) {
+      array.set(this.latestFrame.spectrum.subarray(0, array.length));
+    } else {
+      this.analyzerNode.getByteFrequencyData(array);
+    }
+  }
+
+  // the latest worklet spectrum, or the analyser's when polling
+  private get spectrum(): ArrayLike<number> {
+    if (this.latestFrame) {
+      return this.latestFrame.spectrum;
+    }
+    this.analyzerNode.getByteFrequencyData(this.dataArray);
+    return this.dataArray;
   }
 
   public getMaxAmplitudeFreq(minFreq: number | null, maxFreq: number | null) {
-    this.getByteFrequencyData(this.dataArray);
+    const spectrum = this.spectrum;
 
     let maxAmplitude = 0;
     let maxFrequency = 0;
 
-    for (let i = 0; i < this.dataArray.length; i++) {
-      const frequency =
-        (i * this.analyzerNode.context.sampleRate) / this.analyzerNode.fftSize;
+    for (let i = 0; i < spectrum.length; i++) {
+      const frequency = i * this.frequencyPerDataPoint;
       if (
         (minFreq === null || frequency >= minFreq) &&
         (maxFreq === null || frequency <= maxFreq) &&
-        this.dataArray[i] > maxAmplitude
+        spectrum[i] > maxAmplitude
       ) {
-        maxAmplitude = this.dataArray[i];
+        maxAmplitude = spectrum[i];
         maxFrequency = frequency;
       }
     }
     return { frequency: maxFrequency, amplitude: maxAmplitude };
   }
 
-  public static async create() {
+  public getSpectrumFeatures(): SpectrumFeatures {
+    if (this.isGated) {
+      return SILENT_FEATURES;
+    }
+    return spectrumFeatures(this.spectrum, this.frequencyPerDataPoint);
+  }
+
+  /**
+   * Fundamental frequency from the time-domain signal plus the loudest
+   * spectrum amplitude within the given band (same scale as calibration).
+   * The pitch is searched only around the band when one is given, from the
+   * latest worklet frame when there is one.
+   */
+  public getPitch(minFreq: number | null, maxFreq: number | null): PitchSample {
+    if (this.isGated) {
+      return SILENT_PITCH;
+    }
+    const band =
+      minFreq === null || maxFreq === null ? null : { minFreq, maxFreq };
+    const { frequency, clarity } = this.detectPitchAround(band);
+    const { amplitude } = this.getMaxAmplitudeFreq(minFreq, maxFreq);
+    return { frequency, amplitude, clarity };
+  }
+
+  private detectPitchAround(band: FrequencyBand | null): PitchEstimate {
+    const frame = this.latestFrame;
+    if (!frame) {
+      this.analyzerNode.getFloatTimeDomainData(this.timeDomainArray);
+      return detectPitch(
+        this.timeDomainArray,
+        this.context.sampleRate,
+        band ? bandSearchOptions(band) : {}
+      );
+    }
+    if (!band) {
+      return frame;
+    }
+    if (!sameBand(band, this.workletBand)) {
+      this.workletBand = band;
+      const message: AnalysisMessage = { band };
+      this.analysisNode?.port.postMessage(message);
+    }
+    // frames analysed before the worklet got the band searched everywhere
+    return frame.bandPitch && sameBand(band, frame.bandPitch.band)
+      ? frame.bandPitch
+      : frame;
+  }
+
+  /**
+   * Strongest tone within one band, for two voices on one microphone where
+   * the time-domain pitch only follows the louder one. Clarity is how far
+   * the peak stands above the band's median, 1 from 40 steps up.
+   */
+  public getBandPeak(minFreq: number, maxFreq: number): PitchSample {
+    if (this.isGated) {
+      return SILENT_PITCH;
+    }
+    const spectrum = this.spectrum;
+    const binHz = this.frequencyPerDataPoint;
+    const first = Math.max(1, Math.ceil(minFreq / binHz));
+    const last = Math.min(spectrum.length - 2, Math.floor(maxFreq / binHz));
+    const values: number[] = [];
+    let peak = first;
+    for (let i = first; i <= last; i++) {
+      values.push(spectrum[i]);
+      if (spectrum[i] > spectrum[peak]) {
+        peak = i;
+      }
+    }
+    if (values.length === 0) {
+      return SILENT_PITCH;
+    }
+    // parabolic interpolation between the neighbouring bins
+    const [left, centre, right] = [
+      spectrum[peak - 1],
+      spectrum[peak],
+      spectrum[peak + 1],
+    ];
+    const curvature = left - 2 * centre + right;
+    const shift = curvature < 0 ? (0.5 * (left - right)) / curvature : 0;
+    const median = values.sort((a, b) => a - b)[values.length >> 1];
+    return {
+      frequency: (peak + shift) * binHz,
+      amplitude: centre,
+      clarity: Math.min(1, Math.max(0, (centre - median) / BAND_PEAK_CONTRAST)),
+    };
+  }
+
+  /** Rejects with a `MicrophoneError` saying why the microphone is unusable. */
+  public static async create(
+    settings: MicrophoneSettings,
+    echoCancellation: boolean
+  ) {
+    const stream = await openMicrophone(settings, echoCancellation);
+    const context = new window.AudioContext();
+    const analyzerNode = context.createAnalyser();
+    const microphone = context.createMediaStreamSource(stream);
+    analyzerNode.fftSize = ANALYSIS_WINDOW_SIZE;
+    return new VoiceControl(
+      context,
+      analyzerNode,
+      microphone,
+      await createAnalysisNode(context),
+      echoCancellation
+    );
+  }
+
+  /** Like `create` but analysing an audio file instead of a microphone. */
+  public static async fromAudioFile(file: Blob, echoCancellation: boolean) {
+    const context = new window.AudioContext();
+    let source: AudioBufferSourceNode;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const context = new window.AudioContext();
-      const analyzerNode = context.createAnalyser();
-      const microphone = context.createMediaStreamSource(stream);
-      microphone.connect(analyzerNode);
-      analyzerNode.fftSize = 2048;
-      return new VoiceControl(context, analyzerNode, microphone);
+      source = await audioFileSource(context, file);
     } catch (error) {
-      console.error("Error accessing microphone:", error);
+      context.close();
+      throw error;
     }
+    const analyzerNode = context.createAnalyser();
+    analyzerNode.fftSize = ANALYSIS_WINDOW_SIZE;
+    return new VoiceControl(
+      context,
+      analyzerNode,
+      source,
+      await createAnalysisNode(context),
+      echoCancellation
+    );
   }
 }